@@ -2,19 +2,32 @@
 
 import { Command } from 'commander';
 import { existsSync } from 'fs';
+import { createInterface } from 'readline';
 import { MCPWrapperServer } from './mcp/server.js';
-import { loadConfig } from './config/loader.js';
-import { ServerOptions, DEFAULT_SERVER_OPTIONS } from './types/config.js';
+import { createMCPToolFromDefinition, createSecureToolExecutor, findTool, renderToolCommand } from './mcp/tools.js';
+import { createToolResult } from './mcp/results.js';
+import { createConfirmation, ElicitFn } from './mcp/confirmation.js';
+import { resolveSandbox } from './mcp/sandbox.js';
+import { terminateAllProcesses } from './mcp/process.js';
+import { loadConfig, checkConfig } from './config/loader.js';
+import { formatValidationErrors } from './config/errors.js';
+import { watchConfig } from './config/watcher.js';
+import { SecurityPolicyManager } from './security/policies.js';
+import { runToolTests } from './testing/runner.js';
+import { formatJUnit, formatTap } from './testing/reporters.js';
+import { validateToolInput, formatInputValidationErrors } from './validation/input.js';
+import { ServerOptions, DEFAULT_SERVER_OPTIONS, ToolDefinition } from './types/config.js';
 import { logger, setLogLevel } from './utils/logger.js';
 import { version } from '../package.json';
 
-
 const program = new Command();
 
 program
   .name('mcp-wrapper')
   .description('MCP Wrapper - Expose shell command line tools as MCP servers')
-  .version(version, '-v, --version', 'output the current version');
+  .version(version, '-v, --version', 'output the current version')
+  // Server options go before a subcommand; subcommands have their own -c
+  .enablePositionalOptions();
 
 program
   .option('-c, --config <file>', 'Configuration file path', 'mcp-wrapper.yaml')
@@ -22,6 +35,10 @@ program
   .option('--name <name>', 'Server name')
   .option('--version-server <version>', 'Server version')
   .option('--log-level <level>', 'Log level (error|warn|info|debug)', 'warn')
+  .option('--transport <type>', 'Transport type (stdio|http|sse)', 'stdio')
+  .option('--host <host>', 'Host to bind for http/sse transports', '127.0.0.1')
+  .option('--port <port>', 'Port to listen on for http/sse transports', '3000')
+  .option('--watch', 'Reload the configuration file when it changes', false)
   .action(async (options) => {
     try {
       // Set log level
@@ -33,28 +50,61 @@ program
         process.exit(1);
       }
 
+      if (!['stdio', 'http', 'sse'].includes(options.transport)) {
+        logger.error(`Invalid transport: ${options.transport} (expected stdio, http or sse)`);
+        process.exit(1);
+      }
+
+      const timeout = Number(options.timeout);
+      if (isNaN(timeout) || timeout <= 0) {
+        logger.error(`Invalid timeout: ${options.timeout}`);
+        process.exit(1);
+      }
+
+      const port = parseInt(options.port, 10);
+      if (isNaN(port) || port < 0 || port > 65535) {
+        logger.error(`Invalid port: ${options.port}`);
+        process.exit(1);
+      }
+
       // Load configuration
       logger.info(`Loading configuration from: ${options.config}`);
       const config = loadConfig(options.config);
 
-
       // Prepare server options
       const serverOptions: ServerOptions = {
         ...DEFAULT_SERVER_OPTIONS,
         configFile: options.config,
         name: options.name,
-        version: options.versionServer
+        version: options.versionServer,
+        transport: options.transport,
+        host: options.host,
+        port,
+        timeout
       };
 
-      logger.info(`Starting MCP server with stdio transport`);
+      if (options.transport !== 'stdio' && !config.server?.auth?.bearerToken) {
+        logger.warn('No bearer token configured (server.auth.bearerToken): HTTP endpoint is unauthenticated');
+      }
+
+      logger.info(`Starting MCP server with ${options.transport} transport`);
       logger.info(`Number of tools loaded: ${Object.keys(config.tools).length}`);
 
       // Create and start server
       const server = new MCPWrapperServer(config, serverOptions);
 
+      // Reload tools when the config file changes
+      const stopWatching = options.watch
+        ? watchConfig(options.config, (newConfig) => server.updateConfig(newConfig))
+        : undefined;
+
       // Handle graceful shutdown
+      let shuttingDown = false;
       const shutdown = async () => {
+        if (shuttingDown) return;
+        shuttingDown = true;
         logger.info('Shutting down server...');
+        stopWatching?.();
         await server.stop();
         process.exit(0);
       };
@@ -71,6 +121,240 @@ program
     }
   });
 
+program
+  .command('validate')
+  .description('Check a configuration file and its includes without starting the server')
+  .argument('[file]', 'Configuration file path', 'mcp-wrapper.yaml')
+  .option('--strict', 'Exit with an error when there are warnings', false)
+  .action((file, options) => {
+    setLogLevel('error');
+
+    if (!existsSync(file)) {
+      console.error(`Configuration file not found: ${file}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    try {
+      const { config, warnings } = checkConfig(file);
+
+      if (warnings.length > 0) {
+        console.error(`Warnings:\n${formatValidationErrors(warnings)}`);
+      }
+
+      const counts = [`${Object.keys(config.tools || {}).length} tools`];
+      if (config.resources) counts.push(`${Object.keys(config.resources).length} resources`);
+      if (config.prompts) counts.push(`${Object.keys(config.prompts).length} prompts`);
+      console.log(`${file}: ${counts.join(', ')}, ${warnings.length} warning(s)`);
+      process.exitCode = options.strict && warnings.length > 0 ? 1 : 0;
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('list')
+  .description('Print the tools and their input schemas as MCP clients see them')
+  .option('-c, --config <file>', 'Configuration file path', 'mcp-wrapper.yaml')
+  .action((options) => {
+    setLogLevel('error');
+
+    try {
+      const config = loadConfig(options.config);
+      const tools = Object.entries(config.tools).map(([name, definition]) =>
+        createMCPToolFromDefinition(name, definition)
+      );
+      console.log(JSON.stringify(tools, null, 2));
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+  });
+
+const collect = (value: string, previous: string[]): string[] => [...previous, value];
+
+/**
+ * Build call arguments from `--json` and `--arg key=value` (which wins).
+ * `--arg` values are strings, coerced later by input validation; repeated values
+ * of array properties are collected, and object properties are parsed as JSON.
+ */
+const parseCallArguments = (
+  json: string | undefined,
+  pairs: string[],
+  definition: ToolDefinition
+): Record<string, unknown> => {
+  let args: Record<string, unknown> = {};
+  if (json !== undefined) {
+    const parsed = JSON.parse(json);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('--json must be a JSON object');
+    }
+    args = parsed;
+  }
+
+  const lists: Record<string, string[]> = {};
+  pairs.forEach(pair => {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid --arg '${pair}' (expected key=value)`);
+    }
+
+    const key = pair.slice(0, separator);
+    const value = pair.slice(separator + 1);
+    const type = definition.input.properties?.[key]?.type;
+
+    if (type === 'array') {
+      lists[key] = [...(lists[key] || []), value];
+      args[key] = lists[key];
+    } else if (type === 'object') {
+      args[key] = JSON.parse(value);
+    } else {
+      args[key] = value;
+    }
+  });
+
+  return args;
+};
+
+// Confirmation prompt for `confirm` tools, in place of MCP elicitation
+const confirmOnTerminal = (approveAll: boolean): ElicitFn => async ({ message }) => {
+  if (approveAll) {
+    return { action: 'accept' };
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error('stdin is not a terminal; pass --yes to approve');
+  }
+
+  const terminal = createInterface({ input: process.stdin, output: process.stderr });
+  const answer = await new Promise<string>(resolve => terminal.question(`${message}\nProceed? [y/N] `, resolve));
+  terminal.close();
+  return { action: /^y(es)?$/i.test(answer.trim()) ? 'accept' : 'decline' };
+};
+
+/**
+ * Stop the commands a subcommand started when the wrapper itself is interrupted.
+ * They run in their own process groups, so a Ctrl-C in the terminal does not reach them.
+ */
+const terminateCommandsOnSignal = (): void => {
+  const onSignal = async (signal: NodeJS.Signals) => {
+    await terminateAllProcesses();
+    process.exit(signal === 'SIGINT' ? 130 : 143);
+  };
+  process.once('SIGINT', onSignal);
+  process.once('SIGTERM', onSignal);
+};
+
+program
+  .command('call')
+  .description('Run one tool call through the same validation, escaping and security policy as the server')
+  .argument('<tool>', 'Tool name (config key or display name)')
+  .option('-c, --config <file>', 'Configuration file path', 'mcp-wrapper.yaml')
+  .option('--arg <key=value>', 'Tool argument; repeat for several arguments or list items', collect, [])
+  .option('--json <object>', 'Tool arguments as a JSON object')
+  .option('--dry-run', 'Print the rendered command without running it', false)
+  .option('--yes', 'Approve tools that require confirmation without asking', false)
+  .option('--timeout <seconds>', 'Command execution timeout in seconds', '30')
+  .option('--log-level <level>', 'Log level (error|warn|info|debug)', 'error')
+  .action(async (toolName, options) => {
+    setLogLevel(options.logLevel);
+
+    try {
+      const timeout = Number(options.timeout);
+      if (isNaN(timeout) || timeout <= 0) {
+        throw new Error(`Invalid timeout: ${options.timeout}`);
+      }
+
+      const config = loadConfig(options.config);
+      const found = findTool(config.tools, toolName);
+      if (!found) {
+        throw new Error(`Tool '${toolName}' not found`);
+      }
+      const [name, definition] = found;
+
+      const { value: input, errors } = validateToolInput(
+        parseCallArguments(options.json, options.arg, definition),
+        definition.input
+      );
+      if (errors.length > 0) {
+        throw new Error(`Invalid arguments for tool '${toolName}':\n${formatInputValidationErrors(errors)}`);
+      }
+
+      const toolDefinition = {
+        ...definition,
+        env: { ...config.env, ...definition.env },
+        sandbox: resolveSandbox(config.sandbox, definition.sandbox)
+      };
+      const policyManager = SecurityPolicyManager.fromConfig(config.security);
+
+      if (options.dryRun) {
+        const rendered = renderToolCommand(toolDefinition, input, policyManager);
+        if (Array.isArray(rendered.renderedCommand)) {
+          console.log(`Argv: ${JSON.stringify(rendered.renderedCommand)}`);
+        } else {
+          console.log(`Shell: ${rendered.shell.join(' ')}`);
+          console.log(`Command: ${rendered.renderedCommand}`);
+        }
+        if (definition.cwd) console.log(`Working directory: ${definition.cwd}`);
+        if (rendered.stdin !== undefined) console.log(`Stdin: ${JSON.stringify(rendered.stdin)}`);
+        if (toolDefinition.sandbox?.type) console.log(`Sandbox: ${toolDefinition.sandbox.type}`);
+        if (definition.confirm) console.log('Requires confirmation');
+        return;
+      }
+
+      terminateCommandsOnSignal();
+      const executor = createSecureToolExecutor(toolDefinition, policyManager, timeout);
+      const result = await executor(input, {
+        confirm: createConfirmation(definition.name || name, definition, input, confirmOnTerminal(options.yes))
+      });
+
+      const toolResult = createToolResult(result, definition);
+      toolResult.content.forEach(item => {
+        if (item.type === 'text') console.log(item.text);
+      });
+      process.exitCode = toolResult.isError ? 1 : 0;
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+  });
+
+program
+  .command('test')
+  .description('Run the test cases in the tools\' `tests:` sections and report them as TAP or JUnit XML')
+  .argument('[file]', 'Configuration file path', 'mcp-wrapper.yaml')
+  .option('--format <format>', 'Report format (tap|junit)', 'tap')
+  .option('--tool <name>', 'Only run the tests of this tool')
+  .option('--timeout <seconds>', 'Command execution timeout in seconds', '30')
+  .option('--log-level <level>', 'Log level (silent|error|warn|info|debug)', 'silent')
+  .action(async (file, options) => {
+    setLogLevel(options.logLevel);
+
+    try {
+      if (!['tap', 'junit'].includes(options.format)) {
+        throw new Error(`Invalid format: ${options.format} (expected tap or junit)`);
+      }
+
+      const timeout = Number(options.timeout);
+      if (isNaN(timeout) || timeout <= 0) {
+        throw new Error(`Invalid timeout: ${options.timeout}`);
+      }
+
+      const config = loadConfig(file);
+      if (options.tool !== undefined && !config.tools[options.tool]) {
+        throw new Error(`Tool '${options.tool}' not found`);
+      }
+
+      terminateCommandsOnSignal();
+      const results = await runToolTests(config, { tool: options.tool, timeout });
+      console.log(options.format === 'junit' ? formatJUnit(results) : formatTap(results));
+      process.exitCode = results.every(result => result.passed) ? 0 : 1;
+    } catch (error) {
+      console.error(error.message);
+      process.exitCode = 1;
+    }
+  });
+
 // Error handling for uncaught exceptions
 process.on('uncaughtException', (error) => {
   logger.error(`Uncaught exception: ${error.message}`);
@@ -0,0 +1,66 @@
+import { relative } from 'path';
+import { ConfigValidationError } from '../types/config.js';
+import { ConfigSources } from './includes.js';
+import { locateYamlField } from './positions.js';
+
+/**
+ * Attach the file, line and column an error refers to.
+ * Tool errors point into the file that defined the tool; other fields go to whichever file sets them,
+ * preferring the root config file.
+ */
+export const locateValidationError = (
+  error: ConfigValidationError,
+  sources?: ConfigSources
+): ConfigValidationError => {
+  if (!sources) {
+    return error;
+  }
+
+  const toolMatch = /^tools\.([^.[]+)/.exec(error.field);
+  const candidates = error.source
+    ? [error.source]
+    : toolMatch && sources.tools[toolMatch[1]]
+      ? [sources.tools[toolMatch[1]]]
+      : [sources.root, ...Object.keys(sources.documents).filter(file => file !== sources.root)];
+
+  let best: { source: string; line: number; column: number; depth: number } | undefined;
+  candidates.forEach(source => {
+    const text = sources.documents[source]?.text;
+    const position = text === undefined ? undefined : locateYamlField(text, error.field);
+    if (position && (!best || position.depth > best.depth)) {
+      best = { source, ...position };
+    }
+  });
+
+  return {
+    ...error,
+    source: best?.source ?? candidates[0],
+    line: best?.line,
+    column: best?.column
+  };
+};
+
+/**
+ * One error per line: `file:line:column: field: message`, with paths relative to the working directory.
+ */
+export const formatValidationErrors = (errors: ConfigValidationError[]): string => {
+  return errors
+    .map(err => {
+      if (!err.source) {
+        return `${err.field}: ${err.message}`;
+      }
+
+      const relativePath = relative(process.cwd(), err.source);
+      const file = relativePath && !relativePath.startsWith('..') ? relativePath : err.source;
+      const location = err.line ? `${file}:${err.line}:${err.column}` : file;
+      return `${location}: ${err.field}: ${err.message}`;
+    })
+    .join('\n');
+};
+
+export const configValidationFailure = (errors: ConfigValidationError[], sources?: ConfigSources): Error => {
+  const located = errors
+    .map(err => locateValidationError(err, sources))
+    .sort((a, b) => (a.source || '').localeCompare(b.source || '') || (a.line ?? 0) - (b.line ?? 0));
+  return new Error(`Configuration validation failed:\n${formatValidationErrors(located)}`);
+};
@@ -0,0 +1,91 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { deepMerge, expandIncludePattern, loadConfigSources } from './includes.js';
+
+let root: string;
+
+const write = (file: string, content: string): string => {
+  const path = join(root, file);
+  mkdirSync(join(path, '..'), { recursive: true });
+  writeFileSync(path, content);
+  return path;
+};
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'mcp-includes-'));
+  write('tools/a.yaml', 'tools:\n  a:\n    description: A\n    cmd: echo a\n');
+  write('tools/b.yaml', 'tools:\n  b:\n    description: B\n    cmd: echo b\n');
+  write('tools/nested/c.yaml', 'tools:\n  c:\n    description: C\n    cmd: echo c\n');
+  write('tools/.hidden.yaml', 'tools:\n  hidden:\n    description: H\n    cmd: echo h\n');
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('deepMerge', () => {
+  it('merges objects key by key and replaces arrays', () => {
+    expect(deepMerge({ a: { b: 1, c: [1, 2] }, d: 1 }, { a: { c: [3] }, e: 2 }))
+      .toEqual({ a: { b: 1, c: [3] }, d: 1, e: 2 });
+  });
+
+  it('does not modify its inputs', () => {
+    const base = { a: { b: 1 } };
+    const merged = deepMerge(base, { a: { c: 2 } });
+    merged.a.b = 5;
+
+    expect(base).toEqual({ a: { b: 1 } });
+  });
+});
+
+describe('expandIncludePattern', () => {
+  it('expands * and ** relative to the including file, skipping hidden files', () => {
+    expect(expandIncludePattern('tools/*.yaml', root)).toEqual([join(root, 'tools/a.yaml'), join(root, 'tools/b.yaml')]);
+    expect(expandIncludePattern('tools/**/*.yaml', root)).toEqual([
+      join(root, 'tools/a.yaml'),
+      join(root, 'tools/b.yaml'),
+      join(root, 'tools/nested/c.yaml')
+    ]);
+  });
+
+  it('returns a plain path even when it does not exist', () => {
+    expect(expandIncludePattern('missing.yaml', root)).toEqual([join(root, 'missing.yaml')]);
+  });
+});
+
+describe('loadConfigSources', () => {
+  it('merges included files first, so the including file wins', () => {
+    write('base.yaml', 'security:\n  level: strict\n  maxInputLength: 100\n');
+    const path = write('main.yaml', 'include: [base.yaml, "tools/*.yaml"]\nsecurity:\n  maxInputLength: 50\n');
+
+    const { config, sources } = loadConfigSources(path);
+    expect(config.security).toEqual({ level: 'strict', maxInputLength: 50 });
+    expect(Object.keys(config.tools)).toEqual(['a', 'b']);
+    expect(sources.tools.a).toBe(join(root, 'tools/a.yaml'));
+  });
+
+  it('resolves paths relative to the file that sets them', () => {
+    const path = write('sub/paths.yaml', 'envFile: ../.env\ntools:\n  t:\n    cmd: x\n    cache:\n      ttl: 60\n      file: cache.json\n');
+
+    const { config } = loadConfigSources(path);
+    expect(config.envFile).toBe(join(root, '.env'));
+    expect(config.tools.t.cache.file).toBe(join(root, 'sub/cache.json'));
+  });
+
+  it('rejects tools defined in two files', () => {
+    const path = write('dup.yaml', 'include: tools/a.yaml\ntools:\n  a:\n    cmd: echo again\n');
+
+    expect(() => loadConfigSources(path)).toThrow(`tools.a: Tool is already defined in ${join(root, 'tools/a.yaml')}`);
+  });
+
+  it('rejects circular and missing includes', () => {
+    const first = write('loop1.yaml', 'include: loop2.yaml\n');
+    write('loop2.yaml', 'include: loop1.yaml\n');
+    const missing = write('missing.yaml', 'include: nope.yaml\n');
+
+    expect(() => loadConfigSources(first)).toThrow('Circular include');
+    expect(() => loadConfigSources(missing)).toThrow(`Included file not found: ${join(root, 'nope.yaml')}`);
+  });
+});
@@ -0,0 +1,219 @@
+import * as yaml from 'js-yaml';
+import { readFileSync, existsSync, readdirSync, statSync } from 'fs';
+import { dirname, isAbsolute, join, parse, resolve } from 'path';
+import { ConfigValidationError, MCPConfig } from '../types/config.js';
+import { configValidationFailure } from './errors.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('config');
+
+export interface ConfigDocument {
+  text: string;
+  data: Record<string, any>;
+}
+
+export interface ConfigSources {
+  root: string;
+  // Every file read, including the root, with its text and parsed content
+  documents: Record<string, ConfigDocument>;
+  // Tool name -> file that defined it
+  tools: Record<string, string>;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Merge `override` into `base`: objects merge key by key, anything else (including arrays) is replaced.
+ * Neither input is modified.
+ */
+export const deepMerge = <T>(base: T, override: unknown): T => {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return structuredClone(override === undefined ? base : override) as T;
+  }
+
+  const merged: Record<string, any> = structuredClone(base);
+  Object.entries(override).forEach(([key, value]) => {
+    merged[key] = key in merged ? deepMerge(merged[key], value) : structuredClone(value);
+  });
+  return merged as T;
+};
+
+const hasMagic = (segment: string): boolean => /[*?[]/.test(segment);
+
+const segmentToRegExp = (segment: string): RegExp => new RegExp(
+  '^' + segment
+    .replace(/[.+^${}()|\\]/g, '\\$&')
+    .replace(/\*/g, '[^/]*')
+    .replace(/\?/g, '[^/]') + '$'
+);
+
+const isDirectory = (path: string): boolean => {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+const expandSegments = (base: string, segments: string[]): string[] => {
+  if (segments.length === 0) {
+    return existsSync(base) && !isDirectory(base) ? [base] : [];
+  }
+
+  const [segment, ...rest] = segments;
+
+  if (segment === '**') {
+    const subdirs = isDirectory(base)
+      ? readdirSync(base).filter(entry => !entry.startsWith('.') && isDirectory(join(base, entry)))
+      : [];
+    return [
+      ...expandSegments(base, rest),
+      ...subdirs.flatMap(entry => expandSegments(join(base, entry), segments))
+    ];
+  }
+
+  if (!hasMagic(segment)) {
+    return expandSegments(join(base, segment), rest);
+  }
+
+  if (!isDirectory(base)) {
+    return [];
+  }
+
+  const pattern = segmentToRegExp(segment);
+  return readdirSync(base)
+    .filter(entry => (segment.startsWith('.') || !entry.startsWith('.')) && pattern.test(entry))
+    .flatMap(entry => expandSegments(join(base, entry), rest));
+};
+
+/**
+ * Expand an include pattern (`*`, `?`, `[...]` and `**`) relative to `baseDir`.
+ */
+export const expandIncludePattern = (pattern: string, baseDir: string): string[] => {
+  const absolute = isAbsolute(pattern) ? pattern : resolve(baseDir, pattern);
+
+  if (!hasMagic(absolute)) {
+    return [absolute];
+  }
+
+  const root = parse(absolute).root;
+  const segments = absolute.slice(root.length).split(/[\\/]+/).filter(Boolean);
+  return [...new Set(expandSegments(root, segments))].sort();
+};
+
+const readYamlFile = (path: string): ConfigDocument => {
+  const text = readFileSync(path, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(text);
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      throw new Error(`Invalid YAML syntax in config file ${path}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Configuration file is empty or not a YAML mapping: ${path}`);
+  }
+
+  // Paths inside a file are relative to that file
+  const fileDir = dirname(path);
+  if (typeof parsed.envFile === 'string') {
+    parsed.envFile = resolve(fileDir, parsed.envFile);
+  }
+  if (isPlainObject(parsed.security?.auditLog) && typeof parsed.security.auditLog.file === 'string') {
+    parsed.security.auditLog.file = resolve(fileDir, parsed.security.auditLog.file);
+  }
+
+  const toolFragments = [
+    parsed.defaults,
+    ...Object.values(isPlainObject(parsed.tools) ? parsed.tools : {}),
+    ...Object.values(isPlainObject(parsed.templates?.tools) ? parsed.templates.tools : {})
+  ];
+  toolFragments.forEach(fragment => {
+    if (isPlainObject(fragment?.cache) && typeof fragment.cache.file === 'string') {
+      fragment.cache.file = resolve(fileDir, fragment.cache.file);
+    }
+  });
+
+  return { text, data: parsed };
+};
+
+/**
+ * Read a config file and everything it includes, depth first.
+ * Included files are merged in order, and the including file is merged last so it wins.
+ * Tool names must be unique across all files.
+ */
+export const loadConfigSources = (
+  configPath: string
+): { config: MCPConfig; sources: ConfigSources } => {
+  const root = resolve(configPath);
+  const sources: ConfigSources = { root, documents: {}, tools: {} };
+  const errors: ConfigValidationError[] = [];
+
+  const load = (path: string, stack: string[]): Record<string, any> => {
+    if (stack.includes(path)) {
+      throw new Error(`Circular include: ${[...stack, path].join(' -> ')}`);
+    }
+
+    const document = readYamlFile(path);
+    sources.documents[path] = document;
+    const { include, tools, ...rest } = document.data;
+    let merged: Record<string, any> = { tools: {} };
+
+    const patterns = include === undefined ? [] : Array.isArray(include) ? include : [include];
+    patterns.forEach((pattern: unknown) => {
+      if (typeof pattern !== 'string') {
+        errors.push({ source: path, field: 'include', message: 'Include entries must be file paths or globs', value: pattern });
+        return;
+      }
+
+      const files = expandIncludePattern(pattern, dirname(path));
+      if (!hasMagic(pattern) && !existsSync(files[0])) {
+        errors.push({ source: path, field: 'include', message: `Included file not found: ${files[0]}` });
+        return;
+      }
+      if (files.length === 0) {
+        logger.warn(`Include pattern matched no files: ${pattern} (in ${path})`);
+      }
+
+      files.forEach(file => {
+        const included = load(file, [...stack, path]);
+        merged = deepMerge(merged, { ...included, tools: {} });
+        merged.tools = { ...merged.tools, ...included.tools };
+      });
+    });
+
+    merged = deepMerge(merged, { ...rest, tools: {} });
+
+    if (tools !== undefined && !isPlainObject(tools)) {
+      errors.push({ source: path, field: 'tools', message: 'Tools must be a mapping of tool names to definitions' });
+      return merged;
+    }
+
+    Object.entries(tools || {}).forEach(([name, tool]) => {
+      if (name in merged.tools || (sources.tools[name] && sources.tools[name] !== path)) {
+        errors.push({
+          source: path,
+          field: `tools.${name}`,
+          message: `Tool is already defined in ${sources.tools[name]}`
+        });
+        return;
+      }
+      merged.tools[name] = tool;
+      sources.tools[name] = path;
+    });
+
+    return merged;
+  };
+
+  const config = load(root, []) as MCPConfig;
+
+  if (errors.length > 0) {
+    throw configValidationFailure(errors, sources);
+  }
+
+  return { config, sources };
+};
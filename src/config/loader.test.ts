@@ -0,0 +1,127 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkConfig } from './loader.js';
+
+let root: string;
+let counter = 0;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'mcp-loader-'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const writeConfig = (text: string, name = `config-${++counter}.yaml`): string => {
+  const path = join(root, name);
+  writeFileSync(path, text);
+  return path;
+};
+
+// The error message lists one `file:line:column: field: message` per line, shown here relative to the temp directory
+const errorLines = (path: string): string[] => {
+  try {
+    checkConfig(path);
+  } catch (error) {
+    return error.message.split('\n').slice(1).map((line: string) => line.replace(`${root}/`, ''));
+  }
+  return [];
+};
+
+describe('checkConfig errors', () => {
+  it('reports schema errors with their line and column', () => {
+    const path = writeConfig([
+      'tools:',
+      '  list:',
+      '    description: List',
+      '    cmd: ls',
+      '    timout: 5',
+      '    escapeMode: nope'
+    ].join('\n'), 'schema.yaml');
+
+    expect(errorLines(path)).toEqual([
+      'schema.yaml:5:5: tools.list.timout: Unknown key',
+      'schema.yaml:6:5: tools.list.escapeMode: Must be one of: quote, remove'
+    ]);
+  });
+
+  it('points tool errors into the file that defined the tool', () => {
+    writeConfig('tools:\n  remote:\n    description: Remote\n    args: [ssh, 5]\n', 'included.yaml');
+    const path = writeConfig('include: included.yaml\ntools:\n  local:\n    description: Local\n    cmd: ls\n', 'including.yaml');
+
+    expect(errorLines(path)).toEqual(['included.yaml:4:17: tools.remote.args[1]: Must be of type string']);
+  });
+});
+
+describe('template checks', () => {
+  const tool = (lines: string[], security = ''): string => writeConfig([
+    ...(security ? ['security:', `  level: ${security}`] : []),
+    'tools:',
+    '  t:',
+    '    description: Test tool',
+    ...lines.map(line => `    ${line}`)
+  ].join('\n'));
+
+  const warnings = (path: string): string[] => checkConfig(path).warnings.map(warning => `${warning.field}: ${warning.message}`);
+
+  it('warns about undeclared variables, and rejects them under the strict level', () => {
+    const lines = ['cmd: echo {{name}} {{other.field}}', 'input:', '  type: object', '  properties:', '    name: {type: string}'];
+
+    expect(warnings(tool(lines))).toEqual(["tools.t.cmd.default: Template variable 'other' is not a declared input property"]);
+    expect(errorLines(tool(lines, 'strict')).map(line => line.replace(/^[^ ]+ /, '')))
+      .toEqual(["tools.t.cmd.default: Template variable 'other' is not a declared input property"]);
+  });
+
+  it('allows item fields inside sections over lists', () => {
+    const path = tool([
+      'cmd: "tar {{#files}}{{name}} {{/files}}"',
+      'input:',
+      '  type: object',
+      '  properties:',
+      '    files: {type: array, items: {type: object}}'
+    ]);
+
+    expect(warnings(path)).toEqual([]);
+  });
+
+  it('warns about required properties no template uses and variables only some platforms use', () => {
+    const path = tool([
+      'cmd:',
+      '  unix: ls {{path}}',
+      '  win: dir',
+      'input:',
+      '  type: object',
+      '  properties:',
+      '    path: {type: string}',
+      '    unused: {type: string}',
+      '  required: [unused]'
+    ]);
+
+    expect(warnings(path)).toEqual([
+      "tools.t.cmd.win: Variable 'path' is used on unix but not in this variant",
+      "tools.t.input.required: Required property 'unused' is not used by any template"
+    ]);
+  });
+
+  it('rejects unescaped variables in shell commands when the policy does not allow them', () => {
+    const lines = ['cmd: echo {{{name}}}', 'input:', '  type: object', '  properties:', '    name: {type: string}'];
+
+    expect(warnings(tool(lines))).toEqual(["tools.t.cmd.default: Variable 'name' is inserted unescaped into a shell command"]);
+    expect(errorLines(tool(lines, 'strict'))[0]).toContain("Unescaped variable 'name' is not allowed by the security policy");
+  });
+
+  it('checks prompt templates against their arguments', () => {
+    const path = writeConfig([
+      'prompts:',
+      '  review:',
+      '    arguments:',
+      '      - name: file',
+      '    template: "Review {{file}} for {{focus}}"'
+    ].join('\n'));
+
+    expect(warnings(path)).toEqual(["prompts.review.template: Template variable 'focus' is not a declared argument"]);
+  });
+});
@@ -1,16 +1,80 @@
-import * as yaml from 'js-yaml';
 import { readFileSync, existsSync } from 'fs';
-import { MCPConfig, LoadConfigOptions, ConfigValidationError, PlatformCommands } from '../types/config.js';
-import { validateTemplate, extractTemplateVariables } from '../templating/mustache.js';
+import { dirname, resolve } from 'path';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  MCPConfig,
+  LoadConfigOptions,
+  ConfigValidationError,
+  PlatformCommands,
+  PlatformArgs,
+  ToolDefinition,
+  ResourceDefinition,
+  PromptDefinition,
+  SandboxConfig,
+  ExtendedInputSchema
+} from '../types/config.js';
+import { validateTemplate, extractTemplateVariables, analyzeTemplateVariables, TemplateVariable } from '../templating/mustache.js';
+import { SecurityPolicyManager } from '../security/policies.js';
+import { isSandboxed, resolveSandbox } from '../mcp/sandbox.js';
+import { parseEnvFile, resolveSecretReferences } from '../security/secrets.js';
+import { loadConfigSources, ConfigSources } from './includes.js';
+import { applyToolTemplates } from './templates.js';
+import { validateConfigDocument } from './schema.js';
+import { configValidationFailure, formatValidationErrors, locateValidationError } from './errors.js';
 import { createContextLogger } from '../utils/logger.js';
 
 const logger = createContextLogger('config');
 
+export interface ConfigCheckResult {
+  config: MCPConfig;
+  // Problems that do not stop the config from loading, located like errors
+  warnings: ConfigValidationError[];
+}
+
+/**
+ * Read, merge and validate a config file without resolving secrets.
+ * Throws with every error found; warnings are returned for the caller to report.
+ */
+export const checkConfig = (configPath: string, options: LoadConfigOptions = {}): ConfigCheckResult => {
+  const { validateSchema = true } = options;
+
+  const { config, sources } = loadConfigSources(configPath);
+
+  if (validateSchema) {
+    const schemaErrors = Object.entries(sources.documents).flatMap(([source, document]) =>
+      validateConfigDocument(document.data).map(error => ({ ...error, source }))
+    );
+    if (schemaErrors.length > 0) {
+      throw configValidationFailure(schemaErrors, sources);
+    }
+  }
+
+  applyToolTemplates(config, sources);
+
+  // A config may define only resources or prompts
+  config.tools = config.tools || {};
+
+  [...Object.values(config.tools || {}), ...Object.values(config.resources || {})].forEach(definition => {
+    if (definition.cmd && typeof definition.cmd === 'string') {
+      definition.cmd = { default: definition.cmd };
+    }
+    if (Array.isArray(definition.args)) {
+      definition.args = { default: definition.args };
+    }
+  });
+
+  Object.values(config.resources || {}).forEach(resource => {
+    if (!resource.input && (resource.cmd || resource.args)) {
+      resource.input = defaultResourceInput(resource.uri);
+    }
+  });
+
+  const warnings = validateSchema ? validateConfig(config, sources) : [];
+  return { config, warnings };
+};
+
 export const loadConfig = (configPath: string, options: LoadConfigOptions = {}): MCPConfig => {
-  const {
-    validateSchema = true,
-    allowMissingFile = false
-  } = options;
+  const { allowMissingFile = false } = options;
 
   if (!existsSync(configPath)) {
     if (allowMissingFile) {
@@ -19,45 +83,91 @@ export const loadConfig = (configPath: string, options: LoadConfigOptions = {}):
     throw new Error(`Configuration file not found: ${configPath}`);
   }
 
-  try {
-    const configContent = readFileSync(configPath, 'utf8');
-    const parsedConfig = yaml.load(configContent) as MCPConfig;
+  const { config, warnings } = checkConfig(configPath, options);
+  if (warnings.length > 0) {
+    logger.warn(`Configuration warnings:\n${formatValidationErrors(warnings)}`);
+  }
 
-    Object.values(parsedConfig.tools || {}).forEach(tool => {
-      if (tool.cmd && typeof tool.cmd === 'string') {
-        tool.cmd = { default: tool.cmd };
-      }
-    });
+  resolveConfigSecrets(config, dirname(resolve(configPath)));
 
-    if (validateSchema) {
-      validateConfig(parsedConfig);
-    }
+  return config;
+};
 
-    return parsedConfig;
-  } catch (error) {
-    if (error instanceof yaml.YAMLException) {
-      throw new Error(`Invalid YAML syntax in config file: ${error.message}`);
+/**
+ * Resolve `${VAR}` references in env values and the bearer token,
+ * from the process environment first and then `envFile`.
+ * Env values keep their references; the secrets are substituted after the template is rendered.
+ */
+const resolveConfigSecrets = (config: MCPConfig, configDir: string): void => {
+  const errors: ConfigValidationError[] = [];
+  let fileVars: Record<string, string> = {};
+
+  if (config.envFile) {
+    const envFilePath = resolve(configDir, config.envFile);
+    if (existsSync(envFilePath)) {
+      fileVars = parseEnvFile(readFileSync(envFilePath, 'utf8'));
+    } else {
+      errors.push({ field: 'envFile', message: `Env file not found: ${envFilePath}` });
     }
-    throw error;
+  }
+
+  const vars = { ...fileVars, ...process.env };
+
+  const resolveEnv = (env: Record<string, string> | undefined, fieldPath: string): void => {
+    Object.entries(env || {}).forEach(([name, value]) => {
+      resolveSecretReferences(String(value), vars, `${fieldPath}.${name}`, errors);
+    });
+  };
+
+  resolveEnv(config.env, 'env');
+  Object.entries(config.tools || {}).forEach(([toolName, tool]) => {
+    resolveEnv(tool.env, `tools.${toolName}.env`);
+  });
+  Object.entries(config.resources || {}).forEach(([resourceName, resource]) => {
+    resolveEnv(resource.env, `resources.${resourceName}.env`);
+  });
+
+  if (config.server?.auth?.bearerToken) {
+    config.server.auth.bearerToken = resolveSecretReferences(
+      config.server.auth.bearerToken, vars, 'server.auth.bearerToken', errors
+    );
+  }
+
+  if (errors.length > 0) {
+    throw configValidationFailure(errors);
   }
 };
 
-const validateConfig = (config: MCPConfig): void => {
+/**
+ * Checks that need the merged config (required fields, templates, regular expressions).
+ * Types and unknown keys are already covered by the JSON Schema.
+ *
+ * @returns Warnings for problems that do not prevent loading
+ */
+const validateConfig = (config: MCPConfig, sources?: ConfigSources): ConfigValidationError[] => {
   const errors: ConfigValidationError[] = [];
+  const warnings: ConfigValidationError[] = [];
+  const policyManager = SecurityPolicyManager.fromConfig(config.security);
+  const allowUnescaped = policyManager.allowsUnescapedTemplates();
+  const requireSandbox = policyManager.requiresSandbox();
+  // Undeclared template variables render empty: errors under the strict policy, warnings otherwise
+  const rejectUndeclared = policyManager.getPolicy().level === 'strict';
 
-  if (config.security) {
-    validateSecurityConfig(config.security, errors);
+  if (config.env !== undefined) {
+    validateEnvTemplates(config.env, 'env', errors);
+  }
 
-    if (errors.length > 0) {
-      const errorMessage = errors
-        .map(err => `${err.field}: ${err.message}`)
-        .join('\n');
-      throw new Error(`Configuration validation failed:\n${errorMessage}`);
-    }
+  if (config.security?.defaultSecurityType === 'raw' && !allowUnescaped) {
+    errors.push({ field: 'security.defaultSecurityType', message: RAW_NOT_ALLOWED, value: 'raw' });
   }
 
+  const hasResourcesOrPrompts = Object.keys(config.resources || {}).length > 0 ||
+    Object.keys(config.prompts || {}).length > 0;
+
   if (!config.tools || Object.keys(config.tools).length === 0) {
-    errors.push({ field: 'tools', message: 'At least one tool must be defined' });
+    if (!hasResourcesOrPrompts) {
+      errors.push({ field: 'tools', message: 'At least one tool, resource or prompt must be defined' });
+    }
   } else {
     Object.entries(config.tools).forEach(([toolName, tool]) => {
       if (!tool.description) {
@@ -67,13 +177,20 @@ const validateConfig = (config: MCPConfig): void => {
         });
       }
 
-      if (!tool.cmd) {
+      if (!tool.cmd && !tool.args) {
         errors.push({
           field: `tools.${toolName}.cmd`,
-          message: 'Tool command is required'
+          message: 'Tool command is required (either cmd or args)'
         });
-      } else {
+      } else if (tool.cmd && tool.args) {
+        errors.push({
+          field: `tools.${toolName}`,
+          message: 'Tool must define either cmd or args, not both'
+        });
+      } else if (tool.cmd) {
         validateToolCommand(tool.cmd, `tools.${toolName}.cmd`, errors);
+      } else {
+        validateToolArgs(tool.args, `tools.${toolName}.args`, errors);
       }
 
       if (!tool.input) {
@@ -83,29 +200,251 @@ const validateConfig = (config: MCPConfig): void => {
         });
       } else {
         validateToolInputSchema(tool.input, `tools.${toolName}.input`, errors);
+        validateRawProperties(tool.input, `tools.${toolName}.input`, allowUnescaped, errors);
+        checkToolTemplates(tool, `tools.${toolName}`, allowUnescaped, rejectUndeclared, errors, warnings);
+      }
+
+      if (tool.env !== undefined) {
+        validateEnvTemplates(tool.env, `tools.${toolName}.env`, errors);
       }
 
-      if (tool.escapeMode) {
-        const validEscapeModes = ['quote', 'remove'];
-        if (!validEscapeModes.includes(tool.escapeMode)) {
+      if (tool.cwd !== undefined &&
+          (validateTemplate(tool.cwd).length > 0 || extractTemplateVariables(tool.cwd).length > 0)) {
+        errors.push({
+          field: `tools.${toolName}.cwd`,
+          message: 'Working directory must be a literal path (no template variables)',
+          value: tool.cwd
+        });
+      }
+
+      [['confirm', tool.confirm], ['stdin', tool.stdin]].forEach(([field, template]) => {
+        if (typeof template !== 'string') return;
+        const templateErrors = validateTemplate(template);
+        if (templateErrors.length > 0) {
+          errors.push({ field: `tools.${toolName}.${field}`, message: `Template validation failed: ${templateErrors.join(', ')}` });
+        }
+      });
+
+      (tool.tests || []).forEach((testCase, index) => {
+        const testPath = `tools.${toolName}.tests[${index}].expect`;
+        if (testCase.expect?.commandMatches !== undefined) {
+          validateRegExp(testCase.expect.commandMatches, `${testPath}.commandMatches`, errors);
+        }
+        if (testCase.expect?.stdoutMatches !== undefined) {
+          validateRegExp(testCase.expect.stdoutMatches, `${testPath}.stdoutMatches`, errors);
+        }
+      });
+
+      validateSandbox(resolveSandbox(config.sandbox, tool.sandbox), `tools.${toolName}`, requireSandbox, errors);
+
+      if (tool.progress?.pattern !== undefined) {
+        validateRegExp(tool.progress.pattern, `tools.${toolName}.progress.pattern`, errors);
+      }
+
+      if (tool.output?.outputSchema !== undefined) {
+        if (tool.output.format !== 'json') {
           errors.push({
-            field: `tools.${toolName}.escapeMode`,
-            message: `Escape mode must be one of: ${validEscapeModes.join(', ')}`,
-            value: tool.escapeMode
+            field: `tools.${toolName}.output.outputSchema`,
+            message: 'Output schema requires format: json'
           });
         }
+        validateToolInputSchema(tool.output.outputSchema, `tools.${toolName}.output.outputSchema`, errors);
       }
     });
   }
 
+  Object.entries(config.resources || {}).forEach(([resourceName, resource]) => {
+    validateResource(resource, `resources.${resourceName}`, allowUnescaped, rejectUndeclared, errors, warnings);
+    if (resource.text === undefined) {
+      validateSandbox(resolveSandbox(config.sandbox, resource.sandbox), `resources.${resourceName}`, requireSandbox, errors);
+    }
+  });
+
+  const resourceUris = new Map<string, string>();
+  Object.entries(config.resources || {}).forEach(([resourceName, resource]) => {
+    if (resourceUris.has(resource.uri)) {
+      errors.push({
+        field: `resources.${resourceName}.uri`,
+        message: `URI '${resource.uri}' is already used by resource '${resourceUris.get(resource.uri)}'`
+      });
+    }
+    resourceUris.set(resource.uri, resourceName);
+  });
+
+  Object.entries(config.prompts || {}).forEach(([promptName, prompt]) => {
+    validatePrompt(prompt, `prompts.${promptName}`, rejectUndeclared, errors, warnings);
+  });
+
   if (errors.length > 0) {
-    const errorMessage = errors
-      .map(err => `${err.field}: ${err.message}`)
-      .join('\n');
-    throw new Error(`Configuration validation failed:\n${errorMessage}`);
+    throw configValidationFailure(errors, sources);
   }
 
   logger.info('Configuration validation passed');
+  return warnings.map(warning => locateValidationError(warning, sources));
+};
+
+// Input schema for a command-backed resource without `input`: a required string per URI variable
+const defaultResourceInput = (uri: string): ToolDefinition['input'] => {
+  let names: string[] = [];
+  try {
+    names = new UriTemplate(uri).variableNames;
+  } catch {
+    // Reported by validateResource
+  }
+
+  return {
+    type: 'object',
+    properties: Object.fromEntries(names.map(name => [name, { type: 'string' as const }])),
+    required: names
+  };
+};
+
+const validateResource = (
+  resource: ResourceDefinition,
+  fieldPath: string,
+  allowUnescaped: boolean,
+  rejectUndeclared: boolean,
+  errors: ConfigValidationError[],
+  warnings: ConfigValidationError[]
+): void => {
+  let variableNames: string[] = [];
+  try {
+    variableNames = new UriTemplate(resource.uri).variableNames;
+  } catch (error) {
+    errors.push({ field: `${fieldPath}.uri`, message: `Invalid URI template: ${error.message}`, value: resource.uri });
+  }
+
+  const sources = [resource.text !== undefined, !!resource.cmd, !!resource.args].filter(Boolean).length;
+  if (sources !== 1) {
+    errors.push({ field: fieldPath, message: 'Resource must define exactly one of text, cmd or args' });
+    return;
+  }
+
+  if (resource.text !== undefined) {
+    if (variableNames.length > 0) {
+      errors.push({ field: `${fieldPath}.uri`, message: 'A resource with a URI template must run cmd or args' });
+    }
+    return;
+  }
+
+  if (resource.cmd) {
+    validateToolCommand(resource.cmd, `${fieldPath}.cmd`, errors);
+  } else {
+    validateToolArgs(resource.args, `${fieldPath}.args`, errors);
+  }
+
+  const input = resource.input || defaultResourceInput(resource.uri);
+  validateToolInputSchema(input, `${fieldPath}.input`, errors);
+  validateRawProperties(input, `${fieldPath}.input`, allowUnescaped, errors);
+  variableNames
+    .filter(name => !(name in (input.properties || {})))
+    .forEach(name => {
+      errors.push({ field: `${fieldPath}.uri`, message: `URI template variable '${name}' is not a declared input property` });
+    });
+  checkToolTemplates({ ...resource, input }, fieldPath, allowUnescaped, rejectUndeclared, errors, warnings);
+
+  if (resource.env !== undefined) {
+    validateEnvTemplates(resource.env, `${fieldPath}.env`, errors);
+  }
+
+  if (resource.cwd !== undefined &&
+      (validateTemplate(resource.cwd).length > 0 || extractTemplateVariables(resource.cwd).length > 0)) {
+    errors.push({
+      field: `${fieldPath}.cwd`,
+      message: 'Working directory must be a literal path (no template variables)',
+      value: resource.cwd
+    });
+  }
+};
+
+const validatePrompt = (
+  prompt: PromptDefinition,
+  fieldPath: string,
+  rejectUndeclared: boolean,
+  errors: ConfigValidationError[],
+  warnings: ConfigValidationError[]
+): void => {
+  const declared = new Set<string>();
+  (prompt.arguments || []).forEach((argument, index) => {
+    if (declared.has(argument.name)) {
+      errors.push({ field: `${fieldPath}.arguments[${index}].name`, message: `Duplicate argument '${argument.name}'` });
+    }
+    declared.add(argument.name);
+  });
+
+  if (!prompt.template) {
+    errors.push({ field: `${fieldPath}.template`, message: 'Prompt template is required' });
+    return;
+  }
+
+  const templateErrors = validateTemplate(prompt.template);
+  if (templateErrors.length > 0) {
+    errors.push({ field: `${fieldPath}.template`, message: `Template validation failed: ${templateErrors.join(', ')}` });
+    return;
+  }
+
+  const reported = new Set<string>();
+  analyzeTemplateVariables(prompt.template).forEach(variable => {
+    const root = variable.name.split('.')[0];
+    if (variable.name === '.' || declared.has(root) || reported.has(root)) return;
+
+    reported.add(root);
+    (rejectUndeclared ? errors : warnings).push({
+      field: `${fieldPath}.template`,
+      message: `Template variable '${root}' is not a declared argument`
+    });
+  });
+};
+
+const validateEnvTemplates = (env: Record<string, unknown>, fieldPath: string, errors: ConfigValidationError[]): void => {
+  Object.entries(env).forEach(([name, value]) => {
+    if (typeof value === 'string') {
+      const templateErrors = validateTemplate(value);
+      if (templateErrors.length > 0) {
+        errors.push({ field: `${fieldPath}.${name}`, message: `Template validation failed: ${templateErrors.join(', ')}` });
+      }
+    }
+  });
+};
+
+// Checked on the effective sandbox, since `type` and `prefix` may come from the config-wide one
+const validateSandbox = (
+  sandbox: SandboxConfig | undefined,
+  fieldPath: string,
+  requireSandbox: boolean,
+  errors: ConfigValidationError[]
+): void => {
+  if (requireSandbox && !isSandboxed(sandbox)) {
+    errors.push({ field: `${fieldPath}.sandbox`, message: 'Security policy requires a sandbox (bubblewrap, firejail or prefix)' });
+  }
+  if (sandbox?.type === 'prefix' && !sandbox.prefix) {
+    errors.push({ field: `${fieldPath}.sandbox.prefix`, message: "Sandbox type 'prefix' requires a prefix command" });
+  }
+};
+
+const RAW_NOT_ALLOWED = 'security: raw is not allowed when allowUnescapedTemplates is false (the strict default)';
+
+const validateRawProperties = (
+  schema: ExtendedInputSchema,
+  fieldPath: string,
+  allowUnescaped: boolean,
+  errors: ConfigValidationError[]
+): void => {
+  if (allowUnescaped) return;
+
+  Object.entries(schema.properties || {}).forEach(([propName, prop]) => {
+    if (prop.security === 'raw') {
+      errors.push({ field: `${fieldPath}.properties.${propName}.security`, message: RAW_NOT_ALLOWED });
+    }
+  });
+};
+
+const validateRegExp = (pattern: string, field: string, errors: ConfigValidationError[]): void => {
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    errors.push({ field, message: error.message, value: pattern });
+  }
 };
 
 const validateToolInputSchema = (
@@ -121,26 +460,163 @@ const validateToolInputSchema = (
     });
   }
 
-  if (schema.properties) {
-    Object.entries(schema.properties).forEach(([propName, prop]: [string, any]) => {
-      const validTypes = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
-      if (!validTypes.includes(prop.type)) {
+  Object.entries(schema.properties || {}).forEach(([propName, prop]: [string, any]) => {
+    if (!prop.type) {
+      errors.push({
+        field: `${fieldPath}.properties.${propName}.type`,
+        message: 'Property type is required'
+      });
+    }
+
+    if (prop.pattern !== undefined) {
+      validateRegExp(prop.pattern, `${fieldPath}.properties.${propName}.pattern`, errors);
+    }
+
+    if (prop.flag !== undefined && prop.type !== 'boolean') {
+      errors.push({
+        field: `${fieldPath}.properties.${propName}.flag`,
+        message: 'flag can only be used with type: boolean',
+        value: prop.flag
+      });
+    }
+
+    ([['mode', 'filepath'], ['mustExist', 'filepath'], ['schemes', 'url']] as const).forEach(([option, type]) => {
+      if (prop[option] !== undefined && prop.security !== type) {
         errors.push({
-          field: `${fieldPath}.properties.${propName}.type`,
-          message: `Property type must be one of: ${validTypes.join(', ')}`,
-          value: prop.type
+          field: `${fieldPath}.properties.${propName}.${option}`,
+          message: `${option} can only be used with security: ${type}`,
+          value: prop[option]
         });
       }
+    });
 
-      if (prop.security && prop.security !== 'filepath') {
-        errors.push({
-          field: `${fieldPath}.properties.${propName}.security`,
-          message: `Security type must be 'filepath' (or omit for default escaping)`,
-          value: prop.security
+    if (prop.prefix !== undefined && prop.type !== 'array') {
+      errors.push({
+        field: `${fieldPath}.properties.${propName}.prefix`,
+        message: 'prefix can only be used with type: array',
+        value: prop.prefix
+      });
+    }
+  });
+};
+
+interface TemplateVariant {
+  // cmd/args field of this platform variant, or undefined for env values, stdin and the confirmation prompt
+  field?: string;
+  platform?: string;
+  templates: [string, string][];
+  // Rendered into a shell command, where escaping matters
+  shell: boolean;
+}
+
+/**
+ * Cross-check a tool's templates against its input properties.
+ * Undeclared variables always render empty: they are warnings, and errors when `rejectUndeclared` is set
+ * (the strict policy). Required properties no template uses, variables some platform variants skip and
+ * unescaped values in shell commands are warnings; unescaped values are errors when the security policy
+ * does not allow them.
+ */
+const checkToolTemplates = (
+  tool: Pick<ToolDefinition, 'input' | 'cmd' | 'args' | 'env' | 'unsafe' | 'confirm' | 'stdin'>,
+  fieldPath: string,
+  allowUnescaped: boolean,
+  rejectUndeclared: boolean,
+  errors: ConfigValidationError[],
+  warnings: ConfigValidationError[]
+): void => {
+  const properties = tool.input.properties || {};
+
+  // Inside a section over a list or object, names may refer to the fields of the current item
+  const inItemScope = (variable: TemplateVariable): boolean =>
+    variable.sections.some(section => ['array', 'object'].includes(properties[section.split('.')[0]]?.type));
+
+  const variants: TemplateVariant[] = [
+    ...Object.entries((tool.cmd || {}) as PlatformCommands).map(([platform, command]): TemplateVariant => ({
+      field: `${fieldPath}.cmd.${platform}`,
+      platform,
+      templates: [[`${fieldPath}.cmd.${platform}`, command]],
+      shell: true
+    })),
+    ...Object.entries((tool.args || {}) as PlatformArgs).map(([platform, argv]: [string, string[]]): TemplateVariant => ({
+      field: `${fieldPath}.args.${platform}`,
+      platform,
+      templates: argv.map((arg, index): [string, string] => [`${fieldPath}.args.${platform}[${index}]`, arg]),
+      shell: false
+    })),
+    {
+      templates: [
+        ...Object.entries(tool.env || {}).map(([name, value]): [string, string] =>
+          [`${fieldPath}.env.${name}`, String(value)]),
+        ...(typeof tool.confirm === 'string' ? [[`${fieldPath}.confirm`, tool.confirm] as [string, string]] : []),
+        ...(tool.stdin !== undefined ? [[`${fieldPath}.stdin`, tool.stdin] as [string, string]] : [])
+      ],
+      shell: false
+    }
+  ];
+
+  const usedBy = new Map<TemplateVariant, Set<string>>();
+
+  variants.forEach(variant => {
+    const used = new Set<string>();
+    usedBy.set(variant, used);
+
+    variant.templates.forEach(([field, template]) => {
+      if (validateTemplate(template).length > 0) return;
+
+      const reported = new Set<string>();
+      analyzeTemplateVariables(template).forEach(variable => {
+        const root = variable.name.split('.')[0];
+        if (variable.name === '.' || inItemScope(variable)) return;
+
+        used.add(root);
+        if (!(root in properties) && !reported.has(root)) {
+          reported.add(root);
+          (rejectUndeclared ? errors : warnings).push({ field, message: `Template variable '${root}' is not a declared input property` });
+        }
+
+        if (variable.unescaped && variant.shell && !tool.unsafe) {
+          if (allowUnescaped) {
+            warnings.push({ field, message: `Variable '${variable.name}' is inserted unescaped into a shell command` });
+          } else {
+            errors.push({
+              field,
+              message: `Unescaped variable '${variable.name}' is not allowed by the security policy (mark the tool unsafe or use {{${variable.name}}})`
+            });
+          }
+        }
+      });
+    });
+  });
+
+  const platformVariants = variants.filter(variant => variant.platform);
+  if (platformVariants.length > 1) {
+    platformVariants.forEach(variant => {
+      const used = usedBy.get(variant);
+      const missing = new Map<string, string[]>();
+
+      platformVariants.filter(other => other !== variant).forEach(other => {
+        usedBy.get(other).forEach(name => {
+          if (!used.has(name)) {
+            missing.set(name, [...(missing.get(name) || []), other.platform]);
+          }
         });
-      }
+      });
+
+      missing.forEach((platforms, name) => {
+        warnings.push({
+          field: variant.field,
+          message: `Variable '${name}' is used on ${platforms.join(', ')} but not in this variant`
+        });
+      });
     });
   }
+
+  const usedAnywhere = new Set([...usedBy.values()].flatMap(used => [...used]));
+  (tool.input.required || []).forEach(name => {
+    if (!usedAnywhere.has(name)) {
+      warnings.push({ field: `${fieldPath}.input.required`, message: `Required property '${name}' is not used by any template` });
+    }
+  });
 };
 
 const validateToolCommand = (
@@ -161,66 +637,38 @@ const validateToolCommand = (
         value: command
       });
     }
-
-    const templateVars = extractTemplateVariables(command);
-    logger.debug(`Config command template with variables: ${templateVars.join(', ')}`);
   });
+};
+
+const validateToolArgs = (
+  args: string[] | PlatformArgs,
+  fieldPath: string,
+  errors: ConfigValidationError[]
+): void => {
+  const variants: [string, string[]][] = Array.isArray(args)
+    ? [['', args]]
+    : Object.entries(args);
 
-  if (typeof cmd !== 'string') {
-    const platforms = ['win', 'macos', 'unix', 'default'];
-    const definedPlatforms = Object.keys(cmd).filter(key => platforms.includes(key));
+  variants.forEach(([platform, argv]) => {
+    const argsPath = platform ? `${fieldPath}.${platform}` : fieldPath;
 
-    if (definedPlatforms.length === 0) {
+    if (validateTemplate(argv[0]).length === 0 && extractTemplateVariables(argv[0]).length > 0) {
       errors.push({
-        field: fieldPath,
-        message: 'At least one platform command must be defined (win, macos, unix, or default)'
+        field: `${argsPath}[0]`,
+        message: 'Executable must not contain template variables',
+        value: argv[0]
       });
     }
 
-    definedPlatforms.forEach(platform => {
-      if (!cmd[platform as keyof PlatformCommands]) {
+    argv.forEach((arg, index) => {
+      const templateErrors = validateTemplate(arg);
+      if (templateErrors.length > 0) {
         errors.push({
-          field: `${fieldPath}.${platform}`,
-          message: 'Platform command cannot be empty'
+          field: `${argsPath}[${index}]`,
+          message: `Template validation failed: ${templateErrors.join(', ')}`,
+          value: arg
         });
       }
     });
-  }
+  });
 };
-
-const validateSecurityConfig = (security: any, errors: ConfigValidationError[]): void => {
-  const validLevels = ['strict', 'moderate', 'permissive'];
-
-  if (security.level && !validLevels.includes(security.level)) {
-    errors.push({
-      field: 'security.level',
-      message: `Security level must be one of: ${validLevels.join(', ')}`,
-      value: security.level
-    });
-  }
-
-  const validSecurityTypes = ['safe', 'filepath', 'command', 'text', 'unsafe'];
-  if (security.defaultSecurityType && !validSecurityTypes.includes(security.defaultSecurityType)) {
-    errors.push({
-      field: 'security.defaultSecurityType',
-      message: `Default security type must be one of: ${validSecurityTypes.join(', ')}`,
-      value: security.defaultSecurityType
-    });
-  }
-
-  if (security.maxExecutionTimeout && (typeof security.maxExecutionTimeout !== 'number' || security.maxExecutionTimeout <= 0)) {
-    errors.push({
-      field: 'security.maxExecutionTimeout',
-      message: 'Max execution timeout must be a positive number',
-      value: security.maxExecutionTimeout
-    });
-  }
-
-  if (security.maxInputLength && (typeof security.maxInputLength !== 'number' || security.maxInputLength <= 0)) {
-    errors.push({
-      field: 'security.maxInputLength',
-      message: 'Max input length must be a positive number',
-      value: security.maxInputLength
-    });
-  }
-};
\ No newline at end of file
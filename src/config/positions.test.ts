@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { locateYamlField } from './positions.js';
+
+const text = `# Tools
+defaults: &defaults
+  timeout: 5
+  env: {A: "1", B: "2"}
+tools:
+  flow: {description: x, cmd: "echo", input: {type: object}}
+  block:
+    description: |
+      line one
+      line two
+    <<: *defaults
+    args:
+      - ls
+      - "-la"
+      - {a: 1}
+    tests:
+      - name: first
+        expect:
+          exitCode: 0
+`;
+
+describe('locateYamlField', () => {
+  it('finds keys in block mappings', () => {
+    expect(locateYamlField(text, 'tools.block.args')).toEqual({ line: 12, column: 5, depth: 3 });
+    expect(locateYamlField(text, 'tools.block.tests[0].expect.exitCode')).toEqual({ line: 19, column: 11, depth: 6 });
+  });
+
+  it('finds keys in flow mappings', () => {
+    expect(locateYamlField(text, 'tools.flow.cmd')).toEqual({ line: 6, column: 26, depth: 3 });
+    expect(locateYamlField(text, 'tools.flow.input.type')).toEqual({ line: 6, column: 47, depth: 4 });
+  });
+
+  it('finds list items, including flow mappings inside them', () => {
+    expect(locateYamlField(text, 'tools.block.args[1]')).toEqual({ line: 14, column: 9, depth: 4 });
+    expect(locateYamlField(text, 'tools.block.args[2].a')).toEqual({ line: 15, column: 10, depth: 5 });
+  });
+
+  it('is not confused by multi-line scalars', () => {
+    expect(locateYamlField(text, 'tools.block.description')).toEqual({ line: 8, column: 5, depth: 3 });
+    expect(locateYamlField(text, 'tools.block.args[0]')).toEqual({ line: 13, column: 9, depth: 4 });
+  });
+
+  it('follows merge keys and aliases into the anchored content', () => {
+    expect(locateYamlField(text, 'tools.block.timeout')).toEqual({ line: 3, column: 3, depth: 3 });
+    expect(locateYamlField(text, 'tools.block.env.B')).toEqual({ line: 4, column: 17, depth: 4 });
+  });
+
+  it('falls back to the closest parent', () => {
+    expect(locateYamlField(text, 'tools.block.missing')).toEqual({ line: 7, column: 3, depth: 2 });
+    expect(locateYamlField(text, 'tools.block.args[9]')).toEqual({ line: 12, column: 5, depth: 3 });
+    expect(locateYamlField(text, 'missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { Document, isAlias, isMap, isScalar, isSeq, LineCounter, Pair, parseDocument } from 'yaml';
+
+export interface YamlPosition {
+  line: number;
+  column: number;
+  // Number of field segments that were found; less than the full path when only a parent was located
+  depth: number;
+}
+
+/**
+ * Split `tools.list.args.default[0]` into `['tools', 'list', 'args', 'default', 0]`.
+ */
+const parseField = (field: string): (string | number)[] =>
+  field.split('.').flatMap(part => {
+    const [key, ...indexes] = part.split(/\[(\d+)\]/).filter(Boolean);
+    return [key, ...indexes.map(Number)];
+  });
+
+// Follow aliases to the node they refer to, so paths continue into anchored content
+const resolveNode = (node: unknown, document: Document): unknown =>
+  isAlias(node) ? node.resolve(document) : node;
+
+/**
+ * The pair for `key` in a mapping, looking into `<<` merge keys when the mapping does not set it itself.
+ */
+const findPair = (node: unknown, key: string, document: Document, seen = new Set<unknown>()): Pair | undefined => {
+  if (!isMap(node) || seen.has(node)) return undefined;
+  seen.add(node);
+
+  const keyOf = (pair: Pair): unknown => isScalar(pair.key) ? pair.key.value : pair.key;
+  const own = node.items.find(pair => keyOf(pair) !== '<<' && String(keyOf(pair)) === key);
+  if (own) return own;
+
+  for (const merge of node.items.filter(pair => keyOf(pair) === '<<')) {
+    const value = resolveNode(merge.value, document);
+    const sources = isSeq(value) ? value.items.map(item => resolveNode(item, document)) : [value];
+    for (const source of sources) {
+      const pair = findPair(source, key, document, seen);
+      if (pair) return pair;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Find the line and column of a config field (as used in validation errors), from the parsed YAML.
+ * Keys are located at the key, list items at the start of the item; fields reached through an alias
+ * or merge key point into the anchored content. Falls back to the closest parent that could be found,
+ * and returns undefined when not even the top-level key is present (for example when a value came
+ * from an included file or a template).
+ */
+export const locateYamlField = (text: string, field: string): YamlPosition | undefined => {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, uniqueKeys: false });
+  let node: unknown = document.contents;
+  let position: YamlPosition | undefined;
+
+  const at = (offset: number): YamlPosition => {
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col, depth: (position?.depth ?? 0) + 1 };
+  };
+
+  for (const segment of parseField(field)) {
+    node = resolveNode(node, document);
+
+    if (typeof segment === 'number') {
+      const item = isSeq(node) ? node.items[segment] : undefined;
+      const range = (item as { range?: [number, number, number] })?.range;
+      if (!range) break;
+
+      position = at(range[0]);
+      node = item;
+      continue;
+    }
+
+    const pair = findPair(node, segment, document);
+    const range = (pair?.key as { range?: [number, number, number] })?.range;
+    if (!range) break;
+
+    position = at(range[0]);
+    node = pair.value;
+  }
+
+  return position;
+};
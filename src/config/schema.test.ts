@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { validateConfigDocument } from './schema.js';
+
+describe('validateConfigDocument', () => {
+  it('accepts a valid config', () => {
+    expect(validateConfigDocument({
+      security: { level: 'strict' },
+      tools: { list: { description: 'List', cmd: 'ls {{path}}', input: { type: 'object', properties: { path: { type: 'string' } } } } }
+    })).toEqual([]);
+  });
+
+  it('suggests the right spelling for unknown keys', () => {
+    expect(validateConfigDocument({ tools: { t: { cmd: 'ls', Timeout: 5, bogus: 1 } } })).toEqual([
+      { field: 'tools.t.Timeout', message: "Unknown key (did you mean 'timeout'?)" },
+      { field: 'tools.t.bogus', message: 'Unknown key' }
+    ]);
+  });
+
+  it('reports every wrong value with the field path', () => {
+    expect(validateConfigDocument({ tools: { t: { cmd: 'ls', escapeMode: 'nope', timeout: 'x', args: ['ls', 1] } } })).toEqual([
+      { field: 'tools.t.args[1]', message: 'Must be of type string', value: 1 },
+      { field: 'tools.t.escapeMode', message: 'Must be one of: quote, remove', value: 'nope' },
+      { field: 'tools.t.timeout', message: 'Must be of type number', value: 'x' }
+    ]);
+  });
+
+  it('explains removed keys', () => {
+    expect(validateConfigDocument({ security: { failOnWarnings: true } })).toEqual([
+      { field: 'security.failOnWarnings', message: expect.stringContaining('failOnWarnings was removed') }
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import Ajv from 'ajv';
+import configSchema from './mcp-config.schema.json';
+import { ConfigValidationError } from '../types/config.js';
+
+export { configSchema };
+
+const ajv = new Ajv({ allErrors: true, jsonPointers: true, verbose: true });
+const validateSchema = ajv.compile(configSchema);
+
+/**
+ * Turn a JSON pointer into the dotted field path used in validation errors,
+ * using the document to tell list indexes from mapping keys.
+ */
+const pointerToField = (pointer: string, data: unknown): string => {
+  let field = '';
+  let current: any = data;
+
+  pointer.split('/').slice(1).forEach(raw => {
+    const segment = raw.replace(/~1/g, '/').replace(/~0/g, '~');
+    field = Array.isArray(current) ? `${field}[${segment}]` : field ? `${field}.${segment}` : segment;
+    current = current?.[segment];
+  });
+
+  return field;
+};
+
+const joinField = (field: string, key: string): string => field ? `${field}.${key}` : key;
+
+// Removed keys, by field path, with the message reported instead of 'Unknown key'
+const REMOVED_KEYS: Record<string, string> = {
+  'security.failOnWarnings': 'failOnWarnings was removed: input that fails validation or its security type always fails the call'
+};
+
+const toValidationError = (error: Ajv.ErrorObject, data: unknown): ConfigValidationError => {
+  const field = pointerToField(error.dataPath, data);
+  const params: any = error.params;
+
+  switch (error.keyword) {
+    case 'additionalProperties': {
+      const key: string = params.additionalProperty;
+      const known = Object.keys((error.parentSchema as any)?.properties || {});
+      const suggestion = known.find(name => name.toLowerCase() === key.toLowerCase());
+      const keyField = joinField(field, key);
+      if (REMOVED_KEYS[keyField]) {
+        return { field: keyField, message: REMOVED_KEYS[keyField] };
+      }
+      return {
+        field: keyField,
+        message: suggestion ? `Unknown key (did you mean '${suggestion}'?)` : 'Unknown key'
+      };
+    }
+    case 'propertyNames':
+      return { field: joinField(field, params.propertyName), message: 'Invalid key name' };
+    case 'enum':
+      return { field, message: `Must be one of: ${params.allowedValues.join(', ')}`, value: error.data };
+    case 'const':
+      return { field, message: `Must be ${JSON.stringify(params.allowedValue)}`, value: error.data };
+    case 'type':
+      return { field, message: `Must be of type ${String(params.type).split(',').join(' or ')}`, value: error.data };
+    default:
+      return {
+        field,
+        message: error.message.replace(/^should/, 'Must'),
+        value: error.data
+      };
+  }
+};
+
+/**
+ * Check one config file's content against the published JSON Schema.
+ * Required tool fields are not part of the schema, since they may come from `defaults` or `templates`.
+ */
+export const validateConfigDocument = (data: unknown): ConfigValidationError[] => {
+  if (validateSchema(data)) {
+    return [];
+  }
+
+  return (validateSchema.errors || [])
+    // Reported once by the propertyNames error itself
+    .filter(error => !error.schemaPath.includes('/propertyNames/'))
+    .map(error => toValidationError(error, data));
+};
@@ -0,0 +1,84 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { applyToolTemplates } from './templates.js';
+import { ConfigSources } from './includes.js';
+import { MCPConfig } from '../types/config.js';
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'mcp-templates-'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+// Sources for a config that came from a single file, so errors can be located
+const sourcesFor = (config: Record<string, any>, text = ''): ConfigSources => {
+  const path = join(root, 'config.yaml');
+  writeFileSync(path, text);
+  return { root: path, documents: { [path]: { text, data: config } }, tools: {} };
+};
+
+describe('applyToolTemplates', () => {
+  it('applies defaults, then extended templates, then the tool fields', () => {
+    const config = {
+      defaults: { timeout: 10, inheritEnv: false },
+      templates: {
+        tools: {
+          base: { timeout: 20, env: { A: '1' } },
+          git: { extends: 'base', cwd: '/repo', env: { B: '2' } }
+        }
+      },
+      tools: {
+        status: { extends: 'git', description: 'Status', cmd: 'git status', env: { B: '3' } },
+        plain: { description: 'Plain', cmd: 'true' }
+      }
+    } as unknown as MCPConfig;
+
+    applyToolTemplates(config, sourcesFor(config));
+
+    expect(config.tools.status).toEqual({
+      timeout: 20,
+      inheritEnv: false,
+      cwd: '/repo',
+      env: { A: '1', B: '3' },
+      description: 'Status',
+      cmd: 'git status'
+    });
+    expect(config.tools.plain).toEqual({ timeout: 10, inheritEnv: false, description: 'Plain', cmd: 'true' });
+    expect(config).not.toHaveProperty('defaults');
+    expect(config).not.toHaveProperty('templates');
+  });
+
+  it('resolves property templates', () => {
+    const config = {
+      templates: { properties: { path: { type: 'string', security: 'filepath', description: 'A path' } } },
+      tools: {
+        read: {
+          description: 'Read',
+          cmd: 'cat {{file}}',
+          input: { type: 'object', properties: { file: { extends: 'path', description: 'File to read' } } }
+        }
+      }
+    } as unknown as MCPConfig;
+
+    applyToolTemplates(config, sourcesFor(config));
+
+    expect(config.tools.read.input.properties.file).toEqual({ type: 'string', security: 'filepath', description: 'File to read' });
+  });
+
+  it('rejects unknown and circular templates', () => {
+    const unknown = { tools: { t: { extends: 'nope', cmd: 'true' } } } as unknown as MCPConfig;
+    expect(() => applyToolTemplates(unknown, sourcesFor(unknown))).toThrow('tools.t.extends: Unknown tool template: nope');
+
+    const circular = {
+      templates: { tools: { a: { extends: 'b' }, b: { extends: 'a' } } },
+      tools: { t: { extends: 'a', cmd: 'true' } }
+    } as unknown as MCPConfig;
+    expect(() => applyToolTemplates(circular, sourcesFor(circular))).toThrow('Circular tool template: a -> b -> a');
+  });
+});
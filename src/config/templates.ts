@@ -0,0 +1,96 @@
+import { ConfigValidationError, MCPConfig, ToolDefinition } from '../types/config.js';
+import { ConfigSources, deepMerge } from './includes.js';
+import { configValidationFailure } from './errors.js';
+
+type Fragments = Record<string, Record<string, any>>;
+
+const toList = (value: unknown): unknown[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Resolve `extends` on a tool or property: the named fragments are merged in order,
+ * then the object's own fields on top. Fragments may extend other fragments.
+ */
+const resolveExtends = (
+  target: Record<string, any>,
+  fragments: Fragments,
+  kind: string,
+  field: string,
+  source: string,
+  errors: ConfigValidationError[],
+  stack: string[] = []
+): Record<string, any> => {
+  const { extends: parents, ...own } = target;
+  let resolved: Record<string, any> = {};
+
+  toList(parents).forEach(parent => {
+    if (typeof parent !== 'string' || !fragments[parent]) {
+      errors.push({ source, field: `${field}.extends`, message: `Unknown ${kind} template: ${parent}`, value: parent });
+      return;
+    }
+    if (stack.includes(parent)) {
+      errors.push({ source, field: `${field}.extends`, message: `Circular ${kind} template: ${[...stack, parent].join(' -> ')}` });
+      return;
+    }
+
+    const fragment = resolveExtends(fragments[parent], fragments, kind, field, source, errors, [...stack, parent]);
+    resolved = deepMerge(resolved, fragment);
+  });
+
+  return deepMerge(resolved, own);
+};
+
+/**
+ * Apply `defaults:` and `templates:` to every tool, then drop both sections from the config.
+ * Precedence, lowest first: defaults, extended tool templates, the tool's own fields.
+ */
+export const applyToolTemplates = (config: MCPConfig, sources: ConfigSources): void => {
+  const errors: ConfigValidationError[] = [];
+
+  const sections: Array<[string, unknown]> = [
+    ['defaults', config.defaults],
+    ['templates', config.templates],
+    ['templates.tools', config.templates?.tools],
+    ['templates.properties', config.templates?.properties]
+  ];
+  sections.forEach(([field, value]) => {
+    if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+      errors.push({ source: sources.root, field, message: 'Must be a mapping', value });
+    }
+  });
+  if (errors.length > 0) {
+    throw configValidationFailure(errors, sources);
+  }
+
+  const toolFragments: Fragments = config.templates?.tools || {};
+  const propertyFragments: Fragments = config.templates?.properties || {};
+  const defaults = config.defaults || {};
+
+  Object.entries(config.tools || {}).forEach(([toolName, tool]) => {
+    if (typeof tool !== 'object' || tool === null) return;
+
+    const source = sources.tools[toolName] || sources.root;
+    const field = `tools.${toolName}`;
+    const resolved: Record<string, any> = deepMerge<Record<string, any>>(defaults, resolveExtends(tool, toolFragments, 'tool', field, source, errors));
+
+    const properties = resolved.input?.properties;
+    if (properties && typeof properties === 'object') {
+      Object.entries(properties).forEach(([propName, prop]: [string, any]) => {
+        if (prop && typeof prop === 'object' && prop.extends !== undefined) {
+          properties[propName] = resolveExtends(
+            prop, propertyFragments, 'property', `${field}.input.properties.${propName}`, source, errors
+          );
+        }
+      });
+    }
+
+    config.tools[toolName] = resolved as ToolDefinition;
+  });
+
+  delete config.defaults;
+  delete config.templates;
+
+  if (errors.length > 0) {
+    throw configValidationFailure(errors, sources);
+  }
+};
@@ -0,0 +1,91 @@
+import { watch, FSWatcher } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { MCPConfig, LoadConfigOptions } from '../types/config.js';
+import { loadConfig } from './loader.js';
+import { loadConfigSources } from './includes.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('watcher');
+
+const RELOAD_DEBOUNCE_MS = 200;
+
+const YAML_EXTENSIONS = ['.yaml', '.yml'];
+
+/**
+ * Files that make up a config: the root file plus everything it includes.
+ * Falls back to just the root file when the config cannot be read.
+ */
+const collectConfigFiles = (absolutePath: string): string[] => {
+  try {
+    return Object.keys(loadConfigSources(absolutePath).sources.documents);
+  } catch {
+    return [absolutePath];
+  }
+};
+
+/**
+ * Watch a config file, and every file it includes, and reload on change.
+ * Parent directories are watched so that editors replacing a file (rename on save) are detected,
+ * and so that new YAML files matching an include glob trigger a reload.
+ * Configs that fail to load or validate are logged and never passed to `onReload`.
+ *
+ * @returns Function that stops watching
+ */
+export const watchConfig = (
+  configPath: string,
+  onReload: (config: MCPConfig) => void | Promise<void>,
+  options: LoadConfigOptions = {}
+): (() => void) => {
+  const absolutePath = resolve(configPath);
+  const watchers = new Map<string, FSWatcher>();
+  let files = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const scheduleReload = (): void => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void reload(), RELOAD_DEBOUNCE_MS);
+  };
+
+  const watchDirectory = (directory: string): void => {
+    if (watchers.has(directory)) return;
+
+    const watcher = watch(directory, (_event, changed) => {
+      if (!changed) return;
+
+      const changedPath = join(directory, changed.toString());
+      if (files.has(changedPath) || (directory !== dirname(absolutePath) && YAML_EXTENSIONS.includes(extname(changedPath)))) {
+        scheduleReload();
+      }
+    });
+
+    watcher.on('error', (error) => {
+      logger.error(`Config watcher failed for ${directory}: ${error.message}`);
+    });
+    watchers.set(directory, watcher);
+  };
+
+  const updateWatchedFiles = (): void => {
+    files = new Set(collectConfigFiles(absolutePath));
+    files.forEach(file => watchDirectory(dirname(file)));
+  };
+
+  const reload = async (): Promise<void> => {
+    try {
+      const config = loadConfig(absolutePath, options);
+      updateWatchedFiles();
+      logger.info(`Configuration reloaded: ${Object.keys(config.tools).length} tools`);
+      await onReload(config);
+    } catch (error) {
+      logger.error(`Configuration reload rejected, keeping previous tools: ${error.message}`);
+    }
+  };
+
+  updateWatchedFiles();
+  logger.info(`Watching configuration: ${[...files].join(', ')}`);
+
+  return () => {
+    clearTimeout(timer);
+    watchers.forEach(watcher => watcher.close());
+    watchers.clear();
+  };
+};
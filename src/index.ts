@@ -1,26 +1,64 @@
 export { MCPWrapperServer } from './mcp/server.js';
-export { loadConfig } from './config/loader.js';
+export { loadConfig, checkConfig } from './config/loader.js';
+export { configSchema, validateConfigDocument } from './config/schema.js';
+export { formatValidationErrors } from './config/errors.js';
+export { locateYamlField } from './config/positions.js';
+export { loadConfigSources, expandIncludePattern } from './config/includes.js';
 export {
   createMCPToolFromDefinition,
   createToolExecutor,
   createSecureToolExecutor,
   executeShellCommand,
   executeSecureShellCommand,
-  getPlatformCommand
+  executeSecureArgvCommand,
+  getPlatformCommand,
+  getPlatformArgs,
+  findTool,
+  renderToolCommand
 } from './mcp/tools.js';
+export { createToolResult } from './mcp/results.js';
+export { createOutputBuffer, truncationMarker } from './mcp/output.js';
+export { createProgressReporter } from './mcp/progress.js';
+export { killProcessTree, terminateProcessTree, terminateAllProcesses } from './mcp/process.js';
+export { CallScheduler } from './mcp/scheduler.js';
+export { ResultCache, createCacheKey } from './mcp/cache.js';
+export { createConfirmation } from './mcp/confirmation.js';
+export { resolveSandbox, isSandboxed, wrapInSandbox } from './mcp/sandbox.js';
+export {
+  createMCPResource,
+  createMCPResourceTemplate,
+  createResourceResult,
+  findResource
+} from './mcp/resources.js';
+export { createMCPPrompt, renderPrompt } from './mcp/prompts.js';
+export { runToolTests } from './testing/runner.js';
+export { formatTap, formatJUnit } from './testing/reporters.js';
 export {
   renderTemplate,
   renderSecureTemplate,
+  renderSecureArgs,
   validateTemplate,
-  extractTemplateVariables
+  extractTemplateVariables,
+  analyzeTemplateVariables
 } from './templating/mustache.js';
+export { validateToolInput, formatInputValidationErrors } from './validation/input.js';
 export { logger, setLogLevel, createContextLogger } from './utils/logger.js';
 export {
-  sanitizeFilePath,
   shellEscapeQuote,
   shellEscapeRemove,
+  shellEscapeNone,
   getEscapeFunction,
-  preprocessContext
+  validateInputLength,
+  preprocessContext,
+  checkSecurityType,
+  getSecurityType,
+  formatArgvValue,
+  formatShellValue,
+  sanitizeFilePath
 } from './security/sanitizer.js';
+export type { SanitizationResult } from './security/sanitizer.js';
 export { SecurityPolicyManager, SECURITY_POLICIES } from './security/policies.js';
+export { checkPath, resolveRealPath, isWithinPath } from './security/paths.js';
+export { AuditLogger } from './security/audit.js';
+export { registerSecret, redactSecrets } from './security/secrets.js';
 export * from './types/config.js';
\ No newline at end of file
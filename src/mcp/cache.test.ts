@@ -0,0 +1,104 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createCacheKey, ResultCache } from './cache.js';
+import { CacheOptions, CommandResult, ToolDefinition } from '../types/config.js';
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'mcp-cache-'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const tool = (cache?: CacheOptions, cmd = 'ls {{path}}'): ToolDefinition => ({
+  description: 'Test tool',
+  input: { type: 'object', properties: { path: { type: 'string' } } },
+  cmd,
+  cache
+});
+
+const ok = (stdout: string): CommandResult => ({ stdout, stderr: '', exitCode: 0, success: true });
+
+describe('createCacheKey', () => {
+  it('ignores key order and undefined values but not the command', () => {
+    const key = createCacheKey(tool(), { a: 1, b: { c: 2, d: 3 } });
+
+    expect(createCacheKey(tool(), { b: { d: 3, c: 2 }, a: 1, e: undefined })).toBe(key);
+    expect(createCacheKey(tool(), { a: 1, b: { c: 2, d: 4 } })).not.toBe(key);
+    expect(createCacheKey(tool(undefined, 'ls -la {{path}}'), { a: 1, b: { c: 2, d: 3 } })).not.toBe(key);
+  });
+});
+
+describe('ResultCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns stored results until they expire', () => {
+    vi.useFakeTimers();
+    const cache = new ResultCache({ t: tool({ ttl: 10 }) });
+
+    cache.set('t', 'k', ok('a'));
+    expect(cache.get('t', 'k')).toEqual(ok('a'));
+
+    vi.advanceTimersByTime(10000);
+    expect(cache.get('t', 'k')).toBeUndefined();
+  });
+
+  it('only caches successful, complete results of tools with cache', () => {
+    const cache = new ResultCache({ t: tool({ ttl: 60 }), other: tool() });
+
+    cache.set('t', 'failed', { ...ok(''), success: false, exitCode: 1 });
+    cache.set('t', 'truncated', { ...ok('a'), truncated: true });
+    cache.set('other', 'k', ok('a'));
+
+    expect(cache.get('t', 'failed')).toBeUndefined();
+    expect(cache.get('t', 'truncated')).toBeUndefined();
+    expect(cache.get('other', 'k')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new ResultCache({ t: tool({ ttl: 60, maxEntries: 2 }) });
+
+    cache.set('t', 'a', ok('a'));
+    cache.set('t', 'b', ok('b'));
+    cache.get('t', 'a');
+    cache.set('t', 'c', ok('c'));
+
+    expect(cache.get('t', 'a')).toEqual(ok('a'));
+    expect(cache.get('t', 'b')).toBeUndefined();
+    expect(cache.get('t', 'c')).toEqual(ok('c'));
+  });
+
+  it('persists results to the cache file and loads them again', async () => {
+    const file = join(root, 'persist.json');
+    const cache = new ResultCache({ t: tool({ ttl: 60, file }) });
+    cache.set('t', 'k', ok('a'));
+    await cache.flush();
+
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(JSON.parse(readFileSync(file, 'utf8')).entries).toHaveLength(1);
+    expect(new ResultCache({ t: tool({ ttl: 60, file }) }).get('t', 'k')).toEqual(ok('a'));
+  });
+
+  it('deletes the cache file on clear and ignores results stored afterwards', async () => {
+    const file = join(root, 'clear.json');
+    const cache = new ResultCache({ t: tool({ ttl: 60, file }) });
+    cache.set('t', 'k', ok('a'));
+    await cache.flush();
+
+    await cache.clear();
+    expect(existsSync(file)).toBe(false);
+
+    // A call that was still running when the config was reloaded
+    cache.set('t', 'late', ok('b'));
+    await cache.flush();
+    expect(existsSync(file)).toBe(false);
+    expect(cache.get('t', 'late')).toBeUndefined();
+  });
+});
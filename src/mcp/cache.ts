@@ -0,0 +1,193 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { rename, unlink, writeFile } from 'fs/promises';
+import { CacheOptions, CommandResult, TemplateContext, ToolDefinition } from '../types/config.js';
+import { getPlatformArgs, getPlatformCommand } from './tools.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('cache');
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+interface CacheEntry {
+  tool: string;
+  key: string;
+  expiresAt: number;
+  result: CommandResult;
+}
+
+interface ToolCache {
+  options: CacheOptions;
+  // Insertion order is recency order: the first entry is the least recently used
+  entries: Map<string, CacheEntry>;
+}
+
+// JSON with object keys sorted, so equal arguments always give the same key
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Cache key for a call: the validated arguments and the command template chosen for this platform.
+ */
+export const createCacheKey = (definition: ToolDefinition, input: TemplateContext): string => {
+  const command = definition.args ? getPlatformArgs(definition.args) : getPlatformCommand(definition.cmd);
+  return createHash('sha256').update(stableStringify({ command, input })).digest('hex');
+};
+
+/**
+ * In-memory LRU cache of successful results for tools with `cache:`, optionally persisted to `cache.file`.
+ * Tools that share a file are written to it together.
+ */
+export class ResultCache {
+  private caches = new Map<string, ToolCache>();
+  private writes = new Map<string, Promise<void>>();
+  // Set by `clear()`: calls still running on a replaced cache must not write its files again
+  private cleared = false;
+
+  constructor(tools: Record<string, ToolDefinition>) {
+    Object.entries(tools).forEach(([name, definition]) => {
+      if (definition.cache) {
+        this.caches.set(name, { options: definition.cache, entries: new Map() });
+      }
+    });
+
+    this.files().forEach(file => this.load(file));
+  }
+
+  /**
+   * Cached result for a call to `toolName` (the config key), or undefined.
+   */
+  get(toolName: string, key: string): CommandResult | undefined {
+    const cache = this.caches.get(toolName);
+    if (!cache) return undefined;
+
+    const entry = cache.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) cache.entries.delete(key);
+      logger.debug(`Cache miss for tool '${toolName}' (${cache.entries.size} entries)`);
+      return undefined;
+    }
+
+    cache.entries.delete(key);
+    cache.entries.set(key, entry);
+    logger.info(`Cache hit for tool '${toolName}'`);
+    return entry.result;
+  }
+
+  /**
+   * Store a result. Only successful, complete results are cached, and nothing once the cache was cleared.
+   */
+  set(toolName: string, key: string, result: CommandResult): void {
+    const cache = this.caches.get(toolName);
+    if (!cache || this.cleared || !result.success || result.truncated) return;
+
+    cache.entries.delete(key);
+    cache.entries.set(key, {
+      tool: toolName,
+      key,
+      expiresAt: Date.now() + cache.options.ttl * 1000,
+      result
+    });
+
+    const maxEntries = cache.options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    while (cache.entries.size > maxEntries) {
+      const oldest = cache.entries.keys().next().value;
+      cache.entries.delete(oldest);
+      logger.debug(`Evicted least recently used result for tool '${toolName}'`);
+    }
+
+    logger.debug(`Cached result for tool '${toolName}' for ${cache.options.ttl}s (${cache.entries.size}/${maxEntries} entries)`);
+
+    if (cache.options.file) {
+      this.persist(cache.options.file);
+    }
+  }
+
+  /**
+   * Drop every cached result, including the persisted files (e.g. when the config is reloaded).
+   * A cleared cache stores no further results.
+   */
+  async clear(): Promise<void> {
+    this.cleared = true;
+    this.caches.forEach(cache => cache.entries.clear());
+    await this.flush();
+
+    await Promise.all(this.files().map(async file => {
+      try {
+        await unlink(file);
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          logger.warn(`Failed to remove cache file ${file}: ${error.message}`);
+        }
+      }
+    }));
+    logger.debug('Result cache cleared');
+  }
+
+  /**
+   * Wait for pending writes to the cache files.
+   */
+  async flush(): Promise<void> {
+    await Promise.all(this.writes.values());
+  }
+
+  private files(): string[] {
+    const files = [...this.caches.values()].map(cache => cache.options.file).filter(Boolean);
+    return [...new Set(files)];
+  }
+
+  private load(file: string): void {
+    if (!existsSync(file)) return;
+
+    try {
+      const data = JSON.parse(readFileSync(file, 'utf8'));
+      const now = Date.now();
+      let loaded = 0;
+
+      (Array.isArray(data?.entries) ? data.entries : []).forEach((entry: CacheEntry) => {
+        const cache = this.caches.get(entry.tool);
+        if (!cache || cache.options.file !== file || entry.expiresAt <= now) return;
+        cache.entries.set(entry.key, entry);
+        loaded++;
+      });
+
+      logger.info(`Loaded ${loaded} cached result(s) from ${file}`);
+    } catch (error) {
+      logger.warn(`Ignoring unreadable cache file ${file}: ${error.message}`);
+    }
+  }
+
+  // Writes are chained per file; each one replaces the file atomically
+  private persist(file: string): void {
+    const previous = this.writes.get(file) ?? Promise.resolve();
+    const write = previous.then(async () => {
+      const entries = [...this.caches.values()]
+        .filter(cache => cache.options.file === file)
+        .flatMap(cache => [...cache.entries.values()]);
+
+      const tempFile = `${file}.${process.pid}.tmp`;
+      try {
+        await writeFile(tempFile, JSON.stringify({ entries }), { mode: 0o600 });
+        await rename(tempFile, file);
+      } catch (error) {
+        logger.warn(`Failed to write cache file ${file}: ${error.message}`);
+      }
+    });
+
+    this.writes.set(file, write);
+    write.then(() => {
+      if (this.writes.get(file) === write) this.writes.delete(file);
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createConfirmation, ElicitFn } from './confirmation.js';
+import { createSecureToolExecutor } from './tools.js';
+import { SecurityPolicyManager } from '../security/policies.js';
+import { ToolDefinition } from '../types/config.js';
+
+const tool = (confirm?: ToolDefinition['confirm']): ToolDefinition => ({
+  description: 'Delete a file',
+  input: { type: 'object', properties: { file: { type: 'string' } } },
+  args: ['true', '{{file}}'],
+  confirm
+});
+
+const elicitWith = (action: 'accept' | 'decline' | 'cancel') => vi.fn<ElicitFn>(async () => ({ action }));
+
+describe('createConfirmation', () => {
+  it('is not needed for tools without confirm', () => {
+    expect(createConfirmation('rm', tool(), {}, elicitWith('accept'))).toBeUndefined();
+  });
+
+  it('asks with the rendered message and command', async () => {
+    const elicit = elicitWith('accept');
+    const confirm = createConfirmation('rm', tool('Delete {{file}}?'), { file: 'a.txt' }, elicit);
+
+    expect(await confirm(['rm', 'a.txt'])).toEqual({ approved: true });
+    expect(elicit).toHaveBeenCalledWith({
+      message: 'Delete a.txt?\n\nCommand: ["rm","a.txt"]',
+      requestedSchema: { type: 'object', properties: {} }
+    });
+  });
+
+  it('uses a default message for confirm: true', async () => {
+    const elicit = elicitWith('accept');
+    await createConfirmation('rm', tool(true), {}, elicit)('rm -f x');
+
+    expect(elicit.mock.calls[0][0].message).toBe("Run tool 'rm'?\n\nCommand: rm -f x");
+  });
+
+  it('refuses when the user declines or cancels', async () => {
+    expect(await createConfirmation('rm', tool(true), {}, elicitWith('decline'))('x'))
+      .toEqual({ approved: false, reason: "Call to tool 'rm' was declined by the user" });
+    expect(await createConfirmation('rm', tool(true), {}, elicitWith('cancel'))('x'))
+      .toEqual({ approved: false, reason: "Call to tool 'rm' was cancelled by the user" });
+  });
+
+  it('refuses when the client cannot elicit or the request fails', async () => {
+    expect((await createConfirmation('rm', tool(true), {}, undefined)('x')).reason)
+      .toBe("Tool 'rm' requires user confirmation, but the client does not support elicitation");
+
+    const failing = vi.fn<ElicitFn>(async () => { throw new Error('timed out'); });
+    expect((await createConfirmation('rm', tool(true), {}, failing)('x')).reason)
+      .toBe("Could not confirm call to tool 'rm': timed out");
+  });
+
+  it('keeps a declined command from running', async () => {
+    const definition = { ...tool(true), args: [process.execPath, '-e', 'process.stdout.write("ran")'] };
+    const execute = createSecureToolExecutor(definition, new SecurityPolicyManager());
+    const result = await execute({}, { confirm: createConfirmation('rm', definition, {}, elicitWith('decline')) });
+
+    expect(result).toMatchObject({ success: false, declined: true, stdout: '', stderr: "Call to tool 'rm' was declined by the user" });
+  });
+});
@@ -0,0 +1,63 @@
+import { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { ConfirmationResult, TemplateContext, ToolDefinition } from '../types/config.js';
+import { renderDataTemplate } from '../templating/mustache.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('confirm');
+
+export type ElicitFn = (params: ElicitRequest['params']) => Promise<ElicitResult>;
+
+const formatCommand = (renderedCommand: string | string[]): string =>
+  Array.isArray(renderedCommand) ? JSON.stringify(renderedCommand) : renderedCommand;
+
+/**
+ * Ask the user to approve a call to a `confirm` tool through an MCP elicitation request,
+ * showing the rendered command. Refuses (without running anything) when the client
+ * does not support elicitation, the user declines or cancels, or the request fails.
+ *
+ * @param elicit Sends `elicitation/create`, or undefined when the client lacks the capability
+ * @returns The `confirm` hook for the executor, or undefined when the tool needs no confirmation
+ */
+export const createConfirmation = (
+  toolName: string,
+  definition: ToolDefinition,
+  input: TemplateContext,
+  elicit: ElicitFn | undefined
+): ((renderedCommand: string | string[]) => Promise<ConfirmationResult>) | undefined => {
+  if (!definition.confirm) {
+    return undefined;
+  }
+
+  return async (renderedCommand) => {
+    if (!elicit) {
+      logger.warn(`Tool '${toolName}' requires confirmation, but the client does not support elicitation`);
+      return {
+        approved: false,
+        reason: `Tool '${toolName}' requires user confirmation, but the client does not support elicitation`
+      };
+    }
+
+    const message = typeof definition.confirm === 'string'
+      ? renderDataTemplate(definition.confirm, input)
+      : `Run tool '${toolName}'?`;
+
+    try {
+      const result = await elicit({
+        message: `${message}\n\nCommand: ${formatCommand(renderedCommand)}`,
+        requestedSchema: { type: 'object', properties: {} }
+      });
+
+      logger.info(`Confirmation for tool '${toolName}': ${result.action}`);
+      if (result.action === 'accept') {
+        return { approved: true };
+      }
+      return {
+        approved: false,
+        reason: `Call to tool '${toolName}' was ${result.action === 'decline' ? 'declined' : 'cancelled'} by the user`
+      };
+    } catch (error) {
+      logger.warn(`Confirmation for tool '${toolName}' failed: ${error.message}`);
+      return { approved: false, reason: `Could not confirm call to tool '${toolName}': ${error.message}` };
+    }
+  };
+};
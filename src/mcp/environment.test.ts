@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { buildProcessEnv } from './environment.js';
+import { resolveSecretReferences } from '../security/secrets.js';
+import { ToolDefinition } from '../types/config.js';
+
+const tool = (overrides: Partial<ToolDefinition> = {}): ToolDefinition => ({
+  description: 'Test tool',
+  input: { type: 'object', properties: { region: { type: 'string' } } },
+  cmd: 'true',
+  ...overrides
+});
+
+describe('buildProcessEnv', () => {
+  beforeEach(() => {
+    process.env.MCP_ENV_TEST_KEEP = 'keep';
+    process.env.MCP_ENV_TEST_DROP = 'drop';
+  });
+
+  afterEach(() => {
+    delete process.env.MCP_ENV_TEST_KEEP;
+    delete process.env.MCP_ENV_TEST_DROP;
+  });
+
+  it('inherits the whole environment by default', () => {
+    const env = buildProcessEnv(tool(), {});
+
+    expect(env.MCP_ENV_TEST_KEEP).toBe('keep');
+    expect(env.MCP_ENV_TEST_DROP).toBe('drop');
+  });
+
+  it('keeps only PATH and the allowlist when inheritEnv is restricted', () => {
+    const env = buildProcessEnv(tool({ inheritEnv: ['MCP_ENV_TEST_KEEP'] }), {});
+
+    expect(env).toEqual({ PATH: process.env.PATH, MCP_ENV_TEST_KEEP: 'keep' });
+    expect(buildProcessEnv(tool({ inheritEnv: false }), {})).toEqual({ PATH: process.env.PATH });
+  });
+
+  it('renders env values with the input, without escaping', () => {
+    const env = buildProcessEnv(tool({ inheritEnv: false, env: { REGION: '{{region}}' } }), {
+      region: "eu-west-1; echo 'x'"
+    });
+
+    expect(env.REGION).toBe("eu-west-1; echo 'x'");
+  });
+
+  it('substitutes resolved secrets after rendering', () => {
+    resolveSecretReferences('${ENV_TEST_TOKEN}', { ENV_TEST_TOKEN: 'tok-{{region}}' }, 'env.TOKEN', []);
+    const env = buildProcessEnv(tool({ env: { TOKEN: '${ENV_TEST_TOKEN}:{{region}}' } }), { region: 'us' });
+
+    expect(env.TOKEN).toBe('tok-{{region}}:us');
+  });
+});
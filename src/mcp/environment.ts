@@ -0,0 +1,37 @@
+import { platform } from 'os';
+import { TemplateContext, ToolDefinition } from '../types/config.js';
+import { renderDataTemplate } from '../templating/mustache.js';
+import { renderWithSecrets } from '../security/secrets.js';
+
+// Kept even with `inheritEnv: false`, so executables can still be found
+const BASE_ENV_VARS = ['PATH'];
+const WINDOWS_BASE_ENV_VARS = ['Path', 'PATHEXT', 'SystemRoot', 'ComSpec', 'TEMP', 'TMP'];
+
+const pickEnv = (names: string[]): NodeJS.ProcessEnv => {
+  const env: NodeJS.ProcessEnv = {};
+  names.forEach(name => {
+    if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  });
+  return env;
+};
+
+/**
+ * Build the environment for a tool process: the inherited variables (all, none or an allowlist)
+ * plus the tool's `env:` values rendered with the call's input, then with their `${VAR}` secrets.
+ */
+export const buildProcessEnv = (definition: ToolDefinition, context: TemplateContext): NodeJS.ProcessEnv => {
+  const inheritEnv = definition.inheritEnv ?? true;
+  const baseVars = platform() === 'win32' ? [...BASE_ENV_VARS, ...WINDOWS_BASE_ENV_VARS] : BASE_ENV_VARS;
+
+  const env: NodeJS.ProcessEnv = inheritEnv === true
+    ? { ...process.env }
+    : pickEnv([...baseVars, ...(Array.isArray(inheritEnv) ? inheritEnv : [])]);
+
+  Object.entries(definition.env || {}).forEach(([name, template]) => {
+    env[name] = renderWithSecrets(String(template), text => renderDataTemplate(text, context));
+  });
+
+  return env;
+};
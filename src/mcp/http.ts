@@ -0,0 +1,217 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('http');
+
+const MCP_ENDPOINT = '/mcp';
+const SSE_ENDPOINT = '/sse';
+const SSE_MESSAGES_ENDPOINT = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  transport: 'http' | 'sse';
+  host: string;
+  port: number;
+  bearerToken?: string;
+  createServer: () => Server;
+}
+
+export interface HttpServerHandle {
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: Transport;
+  server: Server;
+}
+
+const sendJsonRpcError = (res: ServerResponse, status: number, message: string): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null
+  }));
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      try {
+        const body = Buffer.concat(chunks).toString('utf8');
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (error) {
+        reject(new Error(`Invalid JSON body: ${error.message}`));
+      }
+    });
+
+    req.on('error', reject);
+  });
+};
+
+const isAuthorized = (req: IncomingMessage, bearerToken?: string): boolean => {
+  if (!bearerToken) {
+    return true;
+  }
+
+  const header = req.headers.authorization || '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const expected = Buffer.from(bearerToken);
+  const actual = Buffer.from(match[1].trim());
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Serve MCP over Streamable HTTP (`/mcp`) or legacy SSE (`/sse` + `/messages`).
+ * Every client session gets its own SDK server instance sharing the same tool set.
+ */
+export const startHttpServer = async (options: HttpServerOptions): Promise<HttpServerHandle> => {
+  const sessions = new Map<string, Session>();
+
+  const connectSession = async (transport: Transport): Promise<Server> => {
+    const server = options.createServer();
+    await server.connect(transport);
+    return server;
+  };
+
+  const handleStreamableHttp = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let server: Server;
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server });
+        logger.info(`Session initialized: ${id}`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        logger.info(`Session closed: ${transport.sessionId}`);
+      }
+    };
+
+    server = await connectSession(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> => {
+    if (req.method === 'GET' && url.pathname === SSE_ENDPOINT) {
+      const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+      const server = await connectSession(transport);
+      sessions.set(transport.sessionId, { transport, server });
+      logger.info(`Session initialized: ${transport.sessionId}`);
+
+      res.on('close', () => {
+        sessions.delete(transport.sessionId);
+        logger.info(`Session closed: ${transport.sessionId}`);
+      });
+      return;
+    }
+
+    if (req.method === 'POST' && url.pathname === SSE_MESSAGES_ENDPOINT) {
+      const sessionId = url.searchParams.get('sessionId') || '';
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      const body = await readJsonBody(req);
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+      return;
+    }
+
+    sendJsonRpcError(res, 404, 'Not Found');
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+
+    if (!isAuthorized(req, options.bearerToken)) {
+      logger.warn(`Unauthorized request from ${req.socket.remoteAddress}`);
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    try {
+      if (options.transport === 'sse') {
+        await handleSse(req, res, url);
+      } else if (url.pathname === MCP_ENDPOINT) {
+        await handleStreamableHttp(req, res);
+      } else {
+        sendJsonRpcError(res, 404, 'Not Found');
+      }
+    } catch (error) {
+      logger.error(`HTTP request failed: ${error.message}`);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, error.message);
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const endpoint = options.transport === 'sse' ? SSE_ENDPOINT : MCP_ENDPOINT;
+  logger.info(`Listening on http://${options.host}:${options.port}${endpoint}`);
+
+  return {
+    close: async () => {
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.allSettled(open.map(session => session.server.close()));
+
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+};
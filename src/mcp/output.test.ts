@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createOutputBuffer, truncationMarker } from './output.js';
+
+const fill = (buffer: ReturnType<typeof createOutputBuffer>, ...chunks: string[]): boolean[] =>
+  chunks.map(chunk => buffer.push(Buffer.from(chunk)));
+
+describe('createOutputBuffer', () => {
+  it('keeps output under the limit unchanged', () => {
+    const buffer = createOutputBuffer(10);
+    fill(buffer, 'abc', 'def');
+
+    expect(buffer.toString()).toBe('abcdef');
+    expect(buffer.totalBytes).toBe(6);
+    expect(buffer.omittedBytes).toBe(0);
+  });
+
+  it('keeps the first bytes in truncate mode and counts the rest', () => {
+    const buffer = createOutputBuffer(5);
+    expect(fill(buffer, 'abc', 'defgh', 'ij')).toEqual([true, true, true]);
+
+    expect(buffer.toString()).toBe(`abcde\n${truncationMarker(5)}`);
+    expect(buffer.totalBytes).toBe(10);
+    expect(buffer.omittedBytes).toBe(5);
+  });
+
+  it('keeps the first and last bytes in headTail mode', () => {
+    const buffer = createOutputBuffer(6, 'headTail');
+    fill(buffer, 'abcd', 'efgh', 'ijkl');
+
+    expect(buffer.toString()).toBe(`abc\n${truncationMarker(6)}\njkl`);
+    expect(buffer.omittedBytes).toBe(6);
+  });
+
+  it('does not mark headTail output that fits', () => {
+    const buffer = createOutputBuffer(6, 'headTail');
+    fill(buffer, 'abcd', 'ef');
+
+    expect(buffer.toString()).toBe('abcdef');
+  });
+
+  it('reports overflow in fail mode', () => {
+    const buffer = createOutputBuffer(4, 'fail');
+
+    expect(fill(buffer, 'abcd', 'e')).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,76 @@
+export type OverflowMode = 'truncate' | 'headTail' | 'fail';
+
+export interface OutputBuffer {
+  /**
+   * Append a chunk. Returns false once the limit is exceeded in 'fail' mode.
+   */
+  push(chunk: Buffer): boolean;
+  toString(): string;
+  readonly totalBytes: number;
+  readonly omittedBytes: number;
+}
+
+export const truncationMarker = (omittedBytes: number): string =>
+  `[output truncated: ${omittedBytes} bytes omitted]`;
+
+/**
+ * Collect process output up to `limit` bytes.
+ *
+ * - truncate: keep the first `limit` bytes, drop the rest, keep reading
+ * - headTail: keep the first and last `limit / 2` bytes, drop the middle
+ * - fail: keep the first `limit` bytes and report overflow to the caller
+ */
+export const createOutputBuffer = (limit: number, mode: OverflowMode = 'truncate'): OutputBuffer => {
+  const headLimit = mode === 'headTail' ? Math.ceil(limit / 2) : limit;
+  const tailLimit = mode === 'headTail' ? limit - headLimit : 0;
+
+  const head: Buffer[] = [];
+  let headBytes = 0;
+  let tail = Buffer.alloc(0);
+  let totalBytes = 0;
+
+  return {
+    push(chunk: Buffer): boolean {
+      totalBytes += chunk.length;
+
+      if (headBytes < headLimit) {
+        const taken = chunk.subarray(0, headLimit - headBytes);
+        head.push(taken);
+        headBytes += taken.length;
+        chunk = chunk.subarray(taken.length);
+      }
+
+      if (chunk.length > 0 && tailLimit > 0) {
+        tail = Buffer.concat([tail, chunk]);
+        if (tail.length > tailLimit) {
+          tail = tail.subarray(tail.length - tailLimit);
+        }
+      }
+
+      return mode !== 'fail' || totalBytes <= limit;
+    },
+
+    toString(): string {
+      const omitted = totalBytes - headBytes - tail.length;
+      const headText = Buffer.concat(head).toString('utf8');
+
+      if (omitted <= 0) {
+        return headText + tail.toString('utf8');
+      }
+
+      if (mode === 'headTail') {
+        return `${headText}\n${truncationMarker(omitted)}\n${tail.toString('utf8')}`;
+      }
+
+      return `${headText}\n${truncationMarker(omitted)}`;
+    },
+
+    get totalBytes(): number {
+      return totalBytes;
+    },
+
+    get omittedBytes(): number {
+      return Math.max(0, totalBytes - headBytes - tail.length);
+    }
+  };
+};
@@ -0,0 +1,80 @@
+import { spawn } from 'child_process';
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { terminateAllProcesses, terminateProcessTree, trackProcess } from './process.js';
+
+// Starts a background grandchild, prints its pid, then waits
+const SHELL_WITH_GRANDCHILD = 'sleep 30 & echo $!; wait';
+
+const startDetached = (script: string) => {
+  const child = spawn('sh', ['-c', script], { stdio: ['ignore', 'pipe', 'ignore'], detached: true });
+  const firstLine = new Promise<number>(resolve => {
+    child.stdout.once('data', (data: Buffer) => resolve(Number(data.toString().trim())));
+  });
+  const closed = new Promise<NodeJS.Signals | null>(resolve => child.once('close', (_code, signal) => resolve(signal)));
+  return { child, firstLine, closed };
+};
+
+// Zombies still accept signals, so on Linux check the process state as well
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+  } catch {
+    return true;
+  }
+};
+
+const waitUntil = async (condition: () => boolean, timeoutMs = 3000): Promise<boolean> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  return condition();
+};
+
+describe.skipIf(process.platform === 'win32')('process trees', () => {
+  it('terminateProcessTree also stops grandchildren', async () => {
+    const { child, firstLine, closed } = startDetached(SHELL_WITH_GRANDCHILD);
+    const grandchild = await firstLine;
+
+    terminateProcessTree(child);
+
+    expect(await closed).toBe('SIGTERM');
+    expect(await waitUntil(() => !isRunning(grandchild))).toBe(true);
+  });
+
+  it('terminateProcessTree kills a child that ignores SIGTERM after the grace period', async () => {
+    const { child, firstLine, closed } = startDetached("trap '' TERM; echo $$; while :; do sleep 0.05; done");
+    await firstLine;
+
+    terminateProcessTree(child, 100);
+
+    expect(await closed).toBe('SIGKILL');
+  });
+
+  it('terminateAllProcesses stops every tracked command', async () => {
+    const first = startDetached(SHELL_WITH_GRANDCHILD);
+    const second = startDetached(SHELL_WITH_GRANDCHILD);
+    trackProcess(first.child);
+    trackProcess(second.child);
+    const grandchildren = await Promise.all([first.firstLine, second.firstLine]);
+
+    await terminateAllProcesses(500);
+
+    expect(await first.closed).toBe('SIGTERM');
+    expect(await second.closed).toBe('SIGTERM');
+    expect(await waitUntil(() => grandchildren.every(pid => !isRunning(pid)))).toBe(true);
+  });
+
+  it('terminateAllProcesses returns right away without running commands', async () => {
+    const start = Date.now();
+    await terminateAllProcesses(5000);
+
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
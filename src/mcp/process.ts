@@ -0,0 +1,88 @@
+import { ChildProcess, spawn } from 'child_process';
+import { platform } from 'os';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('process');
+
+export const KILL_GRACE_PERIOD_MS = 2000;
+
+/**
+ * Send a signal to the child and everything it started.
+ * On Unix the child must have been spawned with `detached: true` so it leads its own process group.
+ */
+export const killProcessTree = (child: ChildProcess, signal: NodeJS.Signals): void => {
+  if (child.pid === undefined) {
+    return;
+  }
+
+  if (platform() === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F'], { stdio: 'ignore' })
+      .on('error', (error) => logger.error(`taskkill failed: ${error.message}`));
+    return;
+  }
+
+  try {
+    process.kill(-child.pid, signal);
+  } catch (error) {
+    // ESRCH: the process group is already gone
+    if (error.code !== 'ESRCH') {
+      logger.error(`Failed to send ${signal} to process group ${child.pid}: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * SIGTERM the process tree, then SIGKILL it if the child has not exited after the grace period.
+ */
+export const terminateProcessTree = (child: ChildProcess, gracePeriodMs = KILL_GRACE_PERIOD_MS): void => {
+  killProcessTree(child, 'SIGTERM');
+
+  const timer = setTimeout(() => {
+    if (child.exitCode === null && child.signalCode === null) {
+      logger.warn(`Process ${child.pid} ignored SIGTERM, sending SIGKILL`);
+    }
+    // Always sweep the group: grandchildren may outlive the direct child
+    killProcessTree(child, 'SIGKILL');
+  }, gracePeriodMs);
+  timer.unref();
+};
+
+// Commands still running, so they can be stopped when the wrapper shuts down
+const liveProcesses = new Set<ChildProcess>();
+
+/**
+ * Remember a child until it exits, for `terminateAllProcesses`.
+ */
+export const trackProcess = (child: ChildProcess): void => {
+  liveProcesses.add(child);
+  const forget = () => liveProcesses.delete(child);
+  child.once('close', forget);
+  child.once('error', forget);
+};
+
+/**
+ * Terminate the process tree of every tracked command: SIGTERM, then SIGKILL for whatever
+ * is left after the grace period. Resolves once all commands exited or the grace period is over.
+ */
+export const terminateAllProcesses = async (gracePeriodMs = KILL_GRACE_PERIOD_MS): Promise<void> => {
+  const children = [...liveProcesses];
+  if (children.length === 0) {
+    return;
+  }
+
+  logger.info(`Terminating ${children.length} running command(s)`);
+  children.forEach(child => killProcessTree(child, 'SIGTERM'));
+
+  const exited = children.map(child => liveProcesses.has(child)
+    ? new Promise(resolve => child.once('close', resolve))
+    : Promise.resolve());
+  let timer: NodeJS.Timeout;
+  await Promise.race([
+    Promise.all(exited),
+    new Promise(resolve => { timer = setTimeout(resolve, gracePeriodMs); })
+  ]);
+  clearTimeout(timer);
+
+  // Always sweep the groups: grandchildren may outlive the direct children
+  children.forEach(child => killProcessTree(child, 'SIGKILL'));
+};
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { createProgressReporter } from './progress.js';
+
+const recorder = () => {
+  const sent: ServerNotification[] = [];
+  const send = async (notification: ServerNotification): Promise<void> => {
+    sent.push(notification);
+  };
+  return { sent, send };
+};
+
+describe('createProgressReporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends a heartbeat until stopped', () => {
+    const { sent, send } = recorder();
+    const reporter = createProgressReporter({ heartbeat: 5 }, 'token', send);
+
+    vi.advanceTimersByTime(10000);
+    reporter.stop();
+    vi.advanceTimersByTime(10000);
+
+    expect(sent).toEqual([
+      { method: 'notifications/progress', params: { progressToken: 'token', progress: 1, message: 'Running for 5s' } },
+      { method: 'notifications/progress', params: { progressToken: 'token', progress: 2, message: 'Running for 10s' } }
+    ]);
+  });
+
+  it('reports stderr lines matching the pattern', () => {
+    const { sent, send } = recorder();
+    const reporter = createProgressReporter({ pattern: '^\\d+%' }, 7, send);
+
+    ['10% done', 'warning: slow', '50% done'].forEach(line => reporter.onStderrLine(line));
+
+    expect(sent.map(notification => notification.params)).toEqual([
+      { progressToken: 7, progress: 1, message: '10% done' },
+      { progressToken: 7, progress: 2, message: '50% done' }
+    ]);
+  });
+
+  it('does nothing without a progress token or progress options', () => {
+    const { sent, send } = recorder();
+
+    expect(createProgressReporter({ pattern: '.' }, undefined, send).onStderrLine).toBeUndefined();
+    expect(createProgressReporter(undefined, 'token', send).onStderrLine).toBeUndefined();
+    vi.advanceTimersByTime(60000);
+    expect(sent).toEqual([]);
+  });
+
+  it('ignores failures to send', async () => {
+    const reporter = createProgressReporter({ pattern: '.' }, 'token', () => Promise.reject(new Error('closed')));
+
+    expect(() => reporter.onStderrLine('x')).not.toThrow();
+    await Promise.resolve();
+  });
+});
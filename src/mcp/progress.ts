@@ -0,0 +1,55 @@
+import { ProgressToken, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { ProgressOptions } from '../types/config.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('progress');
+
+export interface ProgressReporter {
+  onStderrLine?: (line: string) => void;
+  stop(): void;
+}
+
+/**
+ * Send `notifications/progress` for a tool call: a heartbeat every `heartbeat` seconds
+ * and/or one notification per stderr line matching `pattern`.
+ * Does nothing unless the tool opts in and the client supplied a progress token.
+ */
+export const createProgressReporter = (
+  options: ProgressOptions | undefined,
+  progressToken: ProgressToken | undefined,
+  sendNotification: (notification: ServerNotification) => Promise<void>
+): ProgressReporter => {
+  if (!options || progressToken === undefined) {
+    return { stop: () => undefined };
+  }
+
+  let progress = 0;
+  const startTime = Date.now();
+
+  const report = (message: string): void => {
+    progress += 1;
+    sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, message }
+    }).catch((error) => logger.debug(`Failed to send progress notification: ${error.message}`));
+  };
+
+  const heartbeat = options.heartbeat
+    ? setInterval(() => {
+      report(`Running for ${Math.round((Date.now() - startTime) / 1000)}s`);
+    }, options.heartbeat * 1000)
+    : undefined;
+
+  const pattern = options.pattern ? new RegExp(options.pattern) : undefined;
+
+  return {
+    onStderrLine: pattern
+      ? (line: string) => {
+        if (pattern.test(line)) {
+          report(line);
+        }
+      }
+      : undefined,
+    stop: () => clearInterval(heartbeat)
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createMCPPrompt, renderPrompt } from './prompts.js';
+import { PromptDefinition } from '../types/config.js';
+
+const review: PromptDefinition = {
+  description: 'Review a file',
+  arguments: [
+    { name: 'file', description: 'File to review', required: true },
+    { name: 'focus' }
+  ],
+  template: 'Review {{file}}{{#focus}} with a focus on {{focus}}{{/focus}}.'
+};
+
+describe('prompts', () => {
+  it('lists the declared arguments', () => {
+    expect(createMCPPrompt('review', review)).toEqual({
+      name: 'review',
+      description: 'Review a file',
+      arguments: [
+        { name: 'file', description: 'File to review', required: true },
+        { name: 'focus', description: undefined, required: undefined }
+      ]
+    });
+  });
+
+  it('renders the template into one user message without escaping', () => {
+    expect(renderPrompt(review, { file: 'a&b.ts', focus: '<errors>' })).toEqual({
+      description: 'Review a file',
+      messages: [{ role: 'user', content: { type: 'text', text: 'Review a&b.ts with a focus on <errors>.' } }]
+    });
+    expect(renderPrompt(review, { file: 'a.ts' }).messages[0].content).toEqual({ type: 'text', text: 'Review a.ts.' });
+  });
+
+  it('rejects missing and unknown arguments', () => {
+    expect(() => renderPrompt(review, {})).toThrow('Missing required argument(s): file');
+    expect(() => renderPrompt(review, { file: 'a', tone: 'harsh' })).toThrow('Unknown argument(s): tone');
+  });
+});
@@ -0,0 +1,45 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { PromptDefinition } from '../types/config.js';
+import { renderDataTemplate } from '../templating/mustache.js';
+
+export const createMCPPrompt = (name: string, definition: PromptDefinition): Prompt => ({
+  name: definition.name || name,
+  description: definition.description,
+  arguments: (definition.arguments || []).map(argument => ({
+    name: argument.name,
+    description: argument.description,
+    required: argument.required
+  }))
+});
+
+/**
+ * Render a prompt's template with the client's arguments into one user message.
+ * Values are inserted as-is: the result is text for the model, not a command.
+ */
+export const renderPrompt = (
+  definition: PromptDefinition,
+  args: Record<string, string> = {}
+): GetPromptResult => {
+  const declared = definition.arguments || [];
+
+  const missing = declared.filter(argument => argument.required && !args[argument.name]);
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required argument(s): ${missing.map(argument => argument.name).join(', ')}`
+    );
+  }
+
+  const unknown = Object.keys(args).filter(key => !declared.some(argument => argument.name === key));
+  if (unknown.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown argument(s): ${unknown.join(', ')}`);
+  }
+
+  return {
+    description: definition.description,
+    messages: [{
+      role: 'user',
+      content: { type: 'text', text: renderDataTemplate(definition.template, args) }
+    }]
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createMCPResource,
+  createMCPResourceTemplate,
+  createResourceResult,
+  createResourceToolDefinition,
+  findResource,
+  isResourceTemplate
+} from './resources.js';
+import { ResourceDefinition } from '../types/config.js';
+
+const resources: Record<string, ResourceDefinition> = {
+  readme: { uri: 'docs://readme', text: '# Readme', mimeType: 'text/markdown' },
+  log: { uri: 'repo://log/{branch}', description: 'Git log', args: ['git', 'log', '{{branch}}'] },
+  head: { uri: 'repo://log/main', cmd: 'git log -1' }
+};
+
+describe('resources', () => {
+  it('lists fixed URIs as resources and URI templates as resource templates', () => {
+    expect(isResourceTemplate(resources.readme)).toBe(false);
+    expect(isResourceTemplate(resources.log)).toBe(true);
+    expect(createMCPResource('readme', resources.readme))
+      .toEqual({ uri: 'docs://readme', name: 'readme', description: undefined, mimeType: 'text/markdown' });
+    expect(createMCPResourceTemplate('log', resources.log))
+      .toEqual({ uriTemplate: 'repo://log/{branch}', name: 'log', description: 'Git log', mimeType: 'text/plain' });
+  });
+
+  it('prefers an exact URI over a matching template', () => {
+    expect(findResource(resources, 'repo://log/main')).toEqual({ name: 'head', definition: resources.head, variables: {} });
+    expect(findResource(resources, 'repo://log/dev')).toEqual({ name: 'log', definition: resources.log, variables: { branch: 'dev' } });
+    expect(findResource(resources, 'repo://other')).toBeUndefined();
+  });
+
+  it('builds a tool definition with the config env under the resource env', () => {
+    const definition = createResourceToolDefinition({ ...resources.log, env: { B: 'own' } }, { A: 'config', B: 'config' });
+
+    expect(definition).toMatchObject({ description: 'Git log', args: ['git', 'log', '{{branch}}'], env: { A: 'config', B: 'own' } });
+  });
+
+  it('returns static text or command output, and fails for a failed command', () => {
+    expect(createResourceResult('docs://readme', resources.readme))
+      .toEqual({ contents: [{ uri: 'docs://readme', mimeType: 'text/markdown', text: '# Readme' }] });
+    expect(createResourceResult('repo://log/dev', resources.log, { stdout: 'abc', stderr: '', exitCode: 0, success: true }).contents[0].text)
+      .toBe('abc');
+    expect(() => createResourceResult('repo://log/x', resources.log, { stdout: '', stderr: 'bad revision\n', exitCode: 128, success: false }))
+      .toThrow("Reading resource 'repo://log/x' failed (exit code 128): bad revision");
+  });
+});
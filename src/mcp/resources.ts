@@ -0,0 +1,103 @@
+import { ErrorCode, McpError, ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate, Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { CommandResult, ResourceDefinition, SandboxConfig, ToolDefinition } from '../types/config.js';
+import { resolveSandbox } from './sandbox.js';
+
+const DEFAULT_MIME_TYPE = 'text/plain';
+
+export interface ResourceMatch {
+  name: string;
+  definition: ResourceDefinition;
+  // Values of the URI template variables (empty for fixed URIs)
+  variables: Variables;
+}
+
+export const isResourceTemplate = (definition: ResourceDefinition): boolean =>
+  UriTemplate.isTemplate(definition.uri);
+
+/**
+ * Entry for `resources/list` (fixed URIs) or `resources/templates/list` (URI templates).
+ */
+export const createMCPResource = (name: string, definition: ResourceDefinition): Resource => ({
+  uri: definition.uri,
+  name: definition.name || name,
+  description: definition.description,
+  mimeType: definition.mimeType || DEFAULT_MIME_TYPE
+});
+
+export const createMCPResourceTemplate = (name: string, definition: ResourceDefinition): ResourceTemplate => ({
+  uriTemplate: definition.uri,
+  name: definition.name || name,
+  description: definition.description,
+  mimeType: definition.mimeType || DEFAULT_MIME_TYPE
+});
+
+/**
+ * Find the resource for a URI: an exact match first, then the first URI template that matches.
+ */
+export const findResource = (
+  resources: Record<string, ResourceDefinition>,
+  uri: string
+): ResourceMatch | undefined => {
+  const entries = Object.entries(resources);
+
+  const exact = entries.find(([, definition]) => !isResourceTemplate(definition) && definition.uri === uri);
+  if (exact) {
+    return { name: exact[0], definition: exact[1], variables: {} };
+  }
+
+  for (const [name, definition] of entries.filter(([, definition]) => isResourceTemplate(definition))) {
+    const variables = new UriTemplate(definition.uri).match(uri);
+    if (variables) {
+      return { name, definition, variables };
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Tool definition for running a command-backed resource with the secure tool executor.
+ */
+export const createResourceToolDefinition = (
+  definition: ResourceDefinition,
+  env: Record<string, string> = {},
+  sandbox?: SandboxConfig
+): ToolDefinition => ({
+  description: definition.description || definition.uri,
+  input: definition.input || { type: 'object', properties: {} },
+  cmd: definition.cmd,
+  args: definition.args,
+  escapeMode: definition.escapeMode,
+  unsafe: definition.unsafe,
+  timeout: definition.timeout,
+  env: { ...env, ...definition.env },
+  cwd: definition.cwd,
+  inheritEnv: definition.inheritEnv,
+  sandbox: resolveSandbox(sandbox, definition.sandbox)
+});
+
+/**
+ * Convert the static text or a command result into `resources/read` contents.
+ * A failed command is an error, since resources have no error content.
+ */
+export const createResourceResult = (
+  uri: string,
+  definition: ResourceDefinition,
+  result?: CommandResult
+): ReadResourceResult => {
+  const mimeType = definition.mimeType || DEFAULT_MIME_TYPE;
+
+  if (!result) {
+    return { contents: [{ uri, mimeType, text: definition.text ?? '' }] };
+  }
+
+  if (!result.success) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Reading resource '${uri}' failed (exit code ${result.exitCode}): ${result.stderr.trim()}`
+    );
+  }
+
+  return { contents: [{ uri, mimeType, text: result.stdout }] };
+};
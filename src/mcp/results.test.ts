@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createToolResult } from './results.js';
+import { CommandResult, ToolDefinition } from '../types/config.js';
+
+const definition: ToolDefinition = {
+  description: 'JSON tool',
+  input: { type: 'object', properties: {} },
+  args: ['report'],
+  output: {
+    format: 'json',
+    outputSchema: {
+      type: 'object',
+      properties: {
+        n: { type: 'integer' },
+        nested: {
+          type: 'object',
+          properties: { ok: { type: 'boolean' } },
+          required: ['ok']
+        }
+      },
+      required: ['n']
+    }
+  }
+};
+
+const success = (stdout: string): CommandResult => ({ stdout, stderr: '', exitCode: 0, success: true });
+
+describe('createToolResult with an output schema', () => {
+  it('returns structured content that matches the schema', () => {
+    const result = createToolResult(success('{"n": 5, "nested": {"ok": true}}'), definition);
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ n: 5, nested: { ok: true } });
+  });
+
+  it('does not coerce values to the schema types', () => {
+    const result = createToolResult(success('{"n": "5"}'), definition);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('output.n should be integer');
+  });
+
+  it('validates nested properties', () => {
+    const result = createToolResult(success('{"n": 1, "nested": {"ok": "yes"}}'), definition);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("output.nested.ok should be boolean");
+  });
+
+  it('does not apply defaults', () => {
+    const withDefault: ToolDefinition = {
+      ...definition,
+      output: {
+        format: 'json',
+        outputSchema: { type: 'object', properties: { n: { type: 'integer', default: 1 } }, required: ['n'] }
+      }
+    };
+
+    const result = createToolResult(success('{}'), withDefault);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("should have required property 'n'");
+  });
+
+  it('reports output that is not JSON', () => {
+    const result = createToolResult(success('not json'), definition);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Command output is not valid JSON');
+  });
+});
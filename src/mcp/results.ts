@@ -0,0 +1,105 @@
+import Ajv from 'ajv';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CommandResult, ExtendedInputSchema, ToolDefinition } from '../types/config.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('results');
+
+// Strict, like the client's check: no type coercion and no defaults
+const ajv = new Ajv({ allErrors: true });
+const outputValidators = new WeakMap<ExtendedInputSchema, Ajv.ValidateFunction>();
+
+const getOutputValidator = (schema: ExtendedInputSchema): Ajv.ValidateFunction => {
+  let validate = outputValidators.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    outputValidators.set(schema, validate);
+  }
+  return validate;
+};
+
+type TextContent = { type: 'text'; text: string };
+
+const text = (value: string): TextContent => ({ type: 'text', text: value });
+
+const errorResult = (message: string, extra: TextContent[] = []): CallToolResult => ({
+  content: [text(`Error: ${message}`), ...extra],
+  isError: true
+});
+
+/**
+ * Parse JSON stdout into MCP structured content.
+ * Non-object values are wrapped as `{ result: value }`, since structured content must be an object.
+ */
+const parseStructuredContent = (
+  stdout: string,
+  definition: ToolDefinition
+): { structuredContent?: Record<string, unknown>; error?: string } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stdout);
+  } catch (error) {
+    return { error: `Command output is not valid JSON: ${error.message}` };
+  }
+
+  const structuredContent = typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+    ? parsed as Record<string, unknown>
+    : { result: parsed };
+
+  const schema = definition.output?.outputSchema;
+  if (schema) {
+    let validate: Ajv.ValidateFunction;
+    try {
+      validate = getOutputValidator(schema);
+    } catch (error) {
+      return { error: `Output schema is invalid: ${error.message}` };
+    }
+    if (!validate(structuredContent)) {
+      return {
+        error: `Command output does not match output schema: ${ajv.errorsText(validate.errors, { dataVar: 'output' })}`
+      };
+    }
+  }
+
+  return { structuredContent };
+};
+
+/**
+ * Convert a command result into an MCP tool result, honoring the tool's `output:` options.
+ */
+export const createToolResult = (result: CommandResult, definition: ToolDefinition): CallToolResult => {
+  const output = definition.output || {};
+  const trim = output.trim !== false;
+  const stdout = trim ? result.stdout.trim() : result.stdout;
+  const stderr = trim ? result.stderr.trim() : result.stderr;
+
+  const extra: TextContent[] = [];
+  if (output.includeExitCode) {
+    extra.push(text(`Exit code: ${result.exitCode}`));
+  }
+
+  if (!result.success) {
+    return errorResult(stderr || 'Command failed', extra);
+  }
+
+  if (output.includeStderr && stderr) {
+    extra.unshift(text(`stderr:\n${stderr}`));
+  }
+
+  if (output.format === 'json') {
+    const { structuredContent, error } = parseStructuredContent(stdout, definition);
+    if (error) {
+      logger.warn(error);
+      return errorResult(error, extra);
+    }
+
+    return {
+      content: [text(stdout), ...extra],
+      structuredContent
+    };
+  }
+
+  return {
+    content: [text(stdout || 'Command executed successfully'), ...extra]
+  };
+};
@@ -0,0 +1,102 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { isSandboxed, resolveSandbox, wrapInSandbox } from './sandbox.js';
+
+const root = realpathSync(mkdtempSync(join(tmpdir(), 'mcp-sandbox-')));
+const data = join(root, 'data');
+const nested = join(data, 'out');
+mkdirSync(nested, { recursive: true });
+
+afterAll(() => rmSync(root, { recursive: true, force: true }));
+
+// The mount arguments following each option, in order
+const optionValues = (argv: string[], option: string): string[] =>
+  argv.flatMap((arg, index) => arg === option ? [argv[index + 1]] : []);
+
+describe('resolveSandbox', () => {
+  it('lets the tool sandbox override the global one and merges resource limits', () => {
+    expect(resolveSandbox(
+      { type: 'bubblewrap', resourceLimits: { cpuTime: 10, memory: 1024 } },
+      { type: 'firejail', resourceLimits: { cpuTime: 5 } }
+    )).toEqual({ type: 'firejail', resourceLimits: { cpuTime: 5, memory: 1024 } });
+    expect(resolveSandbox(undefined, { type: 'none' })).toEqual({ type: 'none' });
+  });
+
+  it('treats a missing sandbox and type none as not sandboxed', () => {
+    expect(isSandboxed(undefined)).toBe(false);
+    expect(isSandboxed({ type: 'none' })).toBe(false);
+    expect(isSandboxed({ type: 'prefix', prefix: ['nice'] })).toBe(true);
+  });
+});
+
+describe('wrapInSandbox', () => {
+  it('leaves the command alone without a sandbox', () => {
+    expect(wrapInSandbox('ls', ['-l'], undefined, { allowedPaths: [] })).toEqual({ file: 'ls', argv: ['-l'] });
+  });
+
+  it('puts the prefix command in front', () => {
+    expect(wrapInSandbox('ls', ['-l'], { type: 'prefix', prefix: ['nice', '-n', '10'] }, { allowedPaths: [] }))
+      .toEqual({ file: 'nice', argv: ['-n', '10', 'ls', '-l'] });
+    expect(() => wrapInSandbox('ls', [], { type: 'prefix' }, { allowedPaths: [] }))
+      .toThrow("Sandbox 'prefix' requires a prefix command");
+  });
+});
+
+describe.runIf(process.platform === 'linux')('wrapInSandbox on Linux', () => {
+  it('mounts allowed paths read-only in bubblewrap, parents first, and ends with the command', () => {
+    const { file, argv } = wrapInSandbox('ls', ['-l'], { type: 'bubblewrap' }, {
+      allowedPaths: [nested, data, join(root, '*.txt')],
+      cwd: root
+    });
+
+    expect(file).toBe('bwrap');
+    expect(argv).not.toContain('--share-net');
+    const readOnly = optionValues(argv, '--ro-bind-try');
+    expect(readOnly).toEqual(expect.arrayContaining(['/usr', root, data, nested]));
+    expect(readOnly.indexOf(data)).toBeLessThan(readOnly.indexOf(nested));
+    expect(readOnly.some(path => path.includes('*'))).toBe(false);
+    expect(optionValues(argv, '--tmpfs')).toEqual(['/tmp', homedir()]);
+    expect(optionValues(argv, '--chdir')).toEqual([root]);
+    expect(argv.slice(-3)).toEqual(['--', 'ls', '-l']);
+  });
+
+  it('binds writable paths and shares the network only when enabled', () => {
+    const { argv } = wrapInSandbox('ls', [], {
+      type: 'bubblewrap',
+      network: true,
+      tmpfsHome: false,
+      writablePaths: [nested]
+    }, { allowedPaths: [data], cwd: root });
+
+    expect(argv).toContain('--share-net');
+    expect(optionValues(argv, '--bind-try')).toEqual([nested]);
+    expect(optionValues(argv, '--ro-bind-try')).not.toContain(nested);
+    expect(optionValues(argv, '--tmpfs')).toEqual(['/tmp']);
+  });
+
+  it('builds firejail options from the same paths', () => {
+    const { file, argv } = wrapInSandbox('ls', ['-l'], { type: 'firejail', writablePaths: [nested] }, {
+      allowedPaths: [data, '/tmp']
+    });
+
+    expect(file).toBe('firejail');
+    expect(argv).toEqual([
+      '--quiet', '--private-tmp', '--net=none', '--private',
+      `--read-only=${data}`, `--read-write=${nested}`,
+      '--', 'ls', '-l'
+    ]);
+  });
+
+  it('applies resource limits with prlimit around the sandbox', () => {
+    const { file, argv } = wrapInSandbox('ls', [], {
+      type: 'prefix',
+      prefix: ['nice'],
+      resourceLimits: { cpuTime: 5, memory: 1048576, maxProcesses: 20, fileSize: 4096 }
+    }, { allowedPaths: [] });
+
+    expect(file).toBe('prlimit');
+    expect(argv).toEqual(['--cpu=5', '--as=1048576', '--nproc=20', '--fsize=4096', '--', 'nice', 'ls']);
+  });
+});
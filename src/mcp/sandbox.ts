@@ -0,0 +1,163 @@
+import { homedir, platform } from 'os';
+import { ResourceLimits, SandboxConfig } from '../types/config.js';
+import { resolvePolicyDirectories, resolveRealPath } from '../security/paths.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('sandbox');
+
+// Mounted read-only in bubblewrap so executables and their libraries can be found
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc', '/opt'];
+
+export interface SandboxedCommand {
+  file: string;
+  argv: string[];
+}
+
+export interface SandboxPaths {
+  // The policy's allowedPaths, mounted read-only (globs are left out)
+  allowedPaths: string[];
+  // Working directory of the command (default: the wrapper's)
+  cwd?: string;
+}
+
+/**
+ * Merge a tool's `sandbox` over the config-wide one. Resource limits are merged field by field.
+ */
+export const resolveSandbox = (
+  global: SandboxConfig | undefined,
+  own: SandboxConfig | undefined
+): SandboxConfig | undefined => {
+  if (!global || !own) {
+    return own || global;
+  }
+  return {
+    ...global,
+    ...own,
+    resourceLimits: global.resourceLimits || own.resourceLimits
+      ? { ...global.resourceLimits, ...own.resourceLimits }
+      : undefined
+  };
+};
+
+export const isSandboxed = (sandbox: SandboxConfig | undefined): boolean =>
+  sandbox?.type !== undefined && sandbox.type !== 'none';
+
+// Fresh, empty directories inside the sandbox; allowed paths equal to them are not mounted over them
+const privatePaths = (sandbox: SandboxConfig): string[] =>
+  sandbox.tmpfsHome !== false ? ['/tmp', homedir()] : ['/tmp'];
+
+const depth = (path: string): number => path.split('/').filter(Boolean).length;
+
+const bubblewrapArgs = (sandbox: SandboxConfig, paths: SandboxPaths): string[] => {
+  const cwd = resolveRealPath(paths.cwd || process.cwd());
+  const args = ['--die-with-parent', '--new-session', '--unshare-all'];
+  if (sandbox.network) {
+    args.push('--share-net');
+  }
+  args.push('--proc', '/proc', '--dev', '/dev');
+
+  // Later entries replace earlier ones for the same path
+  const mounts = new Map<string, string[]>();
+  [...SYSTEM_PATHS, ...resolvePolicyDirectories([...paths.allowedPaths, ...(sandbox.readOnlyPaths || []), cwd])]
+    .forEach(path => mounts.set(path, ['--ro-bind-try', path, path]));
+  privatePaths(sandbox).forEach(path => mounts.set(path, ['--tmpfs', path]));
+  resolvePolicyDirectories(sandbox.writablePaths || []).forEach(path => mounts.set(path, ['--bind-try', path, path]));
+
+  // Parents first, so nested paths stay visible
+  [...mounts.keys()]
+    .sort((a, b) => depth(a) - depth(b))
+    .forEach(path => args.push(...mounts.get(path)));
+
+  args.push('--chdir', cwd);
+  return args;
+};
+
+const firejailArgs = (sandbox: SandboxConfig, paths: SandboxPaths): string[] => {
+  const args = ['--quiet', '--private-tmp'];
+  if (!sandbox.network) {
+    args.push('--net=none');
+  }
+  if (sandbox.tmpfsHome !== false) {
+    args.push('--private');
+  }
+
+  const hidden = privatePaths(sandbox);
+  resolvePolicyDirectories([...paths.allowedPaths, ...(sandbox.readOnlyPaths || [])])
+    .filter(path => !hidden.includes(path))
+    .forEach(path => args.push(`--read-only=${path}`));
+  resolvePolicyDirectories(sandbox.writablePaths || [])
+    .forEach(path => args.push(`--read-write=${path}`));
+
+  return args;
+};
+
+const prlimitArgs = (limits: ResourceLimits): string[] => {
+  const args: string[] = [];
+  if (limits.cpuTime !== undefined) args.push(`--cpu=${limits.cpuTime}`);
+  if (limits.memory !== undefined) args.push(`--as=${limits.memory}`);
+  if (limits.maxProcesses !== undefined) args.push(`--nproc=${limits.maxProcesses}`);
+  if (limits.fileSize !== undefined) args.push(`--fsize=${limits.fileSize}`);
+  return args;
+};
+
+// POSIX sh units: -v in KiB, -f in 512-byte blocks
+const ulimitScript = (limits: ResourceLimits): string => {
+  const commands: string[] = [];
+  if (limits.cpuTime !== undefined) commands.push(`ulimit -t ${limits.cpuTime}`);
+  if (limits.memory !== undefined) commands.push(`ulimit -v ${Math.floor(limits.memory / 1024)}`);
+  if (limits.maxProcesses !== undefined) commands.push(`ulimit -u ${limits.maxProcesses}`);
+  if (limits.fileSize !== undefined) commands.push(`ulimit -f ${Math.floor(limits.fileSize / 512)}`);
+  return [...commands, 'exec "$0" "$@"'].join(' && ');
+};
+
+const applyResourceLimits = (command: SandboxedCommand, limits: ResourceLimits | undefined): SandboxedCommand => {
+  if (!limits || Object.keys(limits).length === 0) {
+    return command;
+  }
+  if (platform() === 'win32') {
+    throw new Error('Resource limits are not supported on Windows');
+  }
+  if (platform() === 'linux') {
+    return { file: 'prlimit', argv: [...prlimitArgs(limits), '--', command.file, ...command.argv] };
+  }
+  return { file: '/bin/sh', argv: ['-c', ulimitScript(limits), command.file, ...command.argv] };
+};
+
+/**
+ * Wrap a command in the configured isolation backend, then in its resource limits.
+ * The rendered command itself is unchanged; the sandbox only decides how it is started.
+ */
+export const wrapInSandbox = (
+  file: string,
+  argv: string[],
+  sandbox: SandboxConfig | undefined,
+  paths: SandboxPaths
+): SandboxedCommand => {
+  let command: SandboxedCommand = { file, argv };
+
+  switch (sandbox?.type) {
+    case 'bubblewrap':
+    case 'firejail':
+      if (platform() !== 'linux') {
+        throw new Error(`Sandbox '${sandbox.type}' is only available on Linux`);
+      }
+      command = sandbox.type === 'bubblewrap'
+        ? { file: 'bwrap', argv: [...bubblewrapArgs(sandbox, paths), '--', file, ...argv] }
+        : { file: 'firejail', argv: [...firejailArgs(sandbox, paths), '--', file, ...argv] };
+      break;
+    case 'prefix': {
+      const [prefixFile, ...prefixArgs] = sandbox.prefix || [];
+      if (!prefixFile) {
+        throw new Error("Sandbox 'prefix' requires a prefix command");
+      }
+      command = { file: prefixFile, argv: [...prefixArgs, file, ...argv] };
+      break;
+    }
+  }
+
+  command = applyResourceLimits(command, sandbox?.resourceLimits);
+  if (command.file !== file) {
+    logger.debug(`Sandboxed argv: ${JSON.stringify([command.file, ...command.argv])}`);
+  }
+  return command;
+};
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CallScheduler } from './scheduler.js';
+import { LimitsConfig, ToolDefinition } from '../types/config.js';
+
+const tool = (limits?: LimitsConfig): ToolDefinition => ({
+  description: 'Test tool',
+  input: { type: 'object', properties: {} },
+  cmd: 'true',
+  limits
+});
+
+// Whether a promise has settled, after letting pending microtasks (the scheduler's awaits) run
+const state = async (promise: Promise<unknown>): Promise<string> => {
+  let settled = 'pending';
+  promise.then(() => { settled = 'resolved'; }, () => { settled = 'rejected'; });
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+  return settled;
+};
+
+describe('CallScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('queues calls over maxConcurrent and starts them in order', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool({ maxConcurrent: 1 }) });
+
+    const release = await scheduler.acquire('t');
+    const second = scheduler.acquire('t');
+    const third = scheduler.acquire('t');
+    expect(await state(second)).toBe('pending');
+
+    release();
+    expect(await state(second)).toBe('resolved');
+    expect(await state(third)).toBe('pending');
+
+    (await second)();
+    expect(await state(third)).toBe('resolved');
+  });
+
+  it('rejects calls when the queue is full', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool({ maxConcurrent: 1, maxQueue: 1 }) });
+
+    await scheduler.acquire('t');
+    const queued = scheduler.acquire('t');
+
+    await expect(scheduler.acquire('t')).rejects.toThrow("Tool 't' is busy (1 of 1 calls running), and 1 call(s) are already queued");
+    expect(await state(queued)).toBe('pending');
+  });
+
+  it('ignores a second release of the same slot', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool({ maxConcurrent: 1 }) });
+
+    const release = await scheduler.acquire('t');
+    const second = scheduler.acquire('t');
+    const third = scheduler.acquire('t');
+    release();
+    release();
+
+    expect(await state(second)).toBe('resolved');
+    expect(await state(third)).toBe('pending');
+  });
+
+  it('delays calls over the rate limit until the window has passed', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool({ rateLimit: { calls: 2, window: 10 } }) });
+
+    (await scheduler.acquire('t'))();
+    (await scheduler.acquire('t'))();
+    const third = scheduler.acquire('t');
+    expect(await state(third)).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(await state(third)).toBe('pending');
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await state(third)).toBe('resolved');
+  });
+
+  it('rejects rate-limited calls right away with maxQueue 0', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool({ rateLimit: { calls: 1, window: 60 }, maxQueue: 0 }) });
+
+    (await scheduler.acquire('t'))();
+    await expect(scheduler.acquire('t')).rejects.toThrow("Tool 't' is rate limited (1 calls per 60s)");
+  });
+
+  it('removes a call from the queue when its signal aborts', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool({ maxConcurrent: 1 }) });
+    const controller = new AbortController();
+
+    const release = await scheduler.acquire('t');
+    const cancelled = scheduler.acquire('t', controller.signal);
+    const next = scheduler.acquire('t');
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow("Call to Tool 't' was cancelled while queued");
+
+    release();
+    expect(await state(next)).toBe('resolved');
+  });
+
+  it('shares the server limits between tools and resource reads', async () => {
+    const scheduler = new CallScheduler({ maxConcurrent: 1, maxQueue: 0 }, { a: tool(), b: tool() });
+
+    const release = await scheduler.acquire('a');
+    await expect(scheduler.acquire('b')).rejects.toThrow('Server is busy');
+    await expect(scheduler.acquireServer()).rejects.toThrow('Server is busy');
+
+    release();
+    (await scheduler.acquireServer())();
+  });
+
+  it('frees the tool slot when the server slot is refused', async () => {
+    const scheduler = new CallScheduler({ maxConcurrent: 1, maxQueue: 0 }, { a: tool({ maxConcurrent: 1 }), b: tool() });
+
+    const release = await scheduler.acquire('b');
+    await expect(scheduler.acquire('a')).rejects.toThrow('Server is busy');
+    release();
+
+    expect(await state(scheduler.acquire('a'))).toBe('resolved');
+  });
+
+  it('does not limit tools without limits', async () => {
+    const scheduler = new CallScheduler(undefined, { t: tool() });
+
+    await scheduler.acquire('t');
+    expect(await state(scheduler.acquire('t'))).toBe('resolved');
+  });
+});
@@ -0,0 +1,190 @@
+import { LimitsConfig, ToolDefinition } from '../types/config.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('scheduler');
+
+export type ReleaseFn = () => void;
+
+interface Waiter {
+  resolve: (release: ReleaseFn) => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Concurrency, rate and queue limits for one tool or for the whole server.
+ * Calls that cannot start right away wait in a FIFO queue, or are rejected when the queue is full.
+ */
+class Limiter {
+  private running = 0;
+  private starts: number[] = [];
+  private queue: Waiter[] = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private label: string, private limits: LimitsConfig) {}
+
+  acquire(signal?: AbortSignal): Promise<ReleaseFn> {
+    if (this.queue.length === 0 && this.canStart()) {
+      return Promise.resolve(this.start());
+    }
+
+    const maxQueue = this.limits.maxQueue ?? Infinity;
+    if (this.queue.length >= maxQueue) {
+      this.logStats('rejected');
+      return Promise.reject(new Error(`${this.label} is ${this.describeLimit()}, and ${maxQueue} call(s) are already queued`));
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`Call to ${this.label} was cancelled while queued`));
+    }
+
+    return new Promise<ReleaseFn>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          this.logStats('cancelled while queued');
+          reject(new Error(`Call to ${this.label} was cancelled while queued`));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.logStats('queued');
+      this.scheduleRateRetry();
+    });
+  }
+
+  private pruneStarts(now: number): void {
+    const windowMs = (this.limits.rateLimit?.window ?? 0) * 1000;
+    while (this.starts.length > 0 && this.starts[0] <= now - windowMs) {
+      this.starts.shift();
+    }
+  }
+
+  private isRateLimited(now: number = Date.now()): boolean {
+    if (!this.limits.rateLimit) return false;
+    this.pruneStarts(now);
+    return this.starts.length >= this.limits.rateLimit.calls;
+  }
+
+  private isAtConcurrency(): boolean {
+    return this.limits.maxConcurrent !== undefined && this.running >= this.limits.maxConcurrent;
+  }
+
+  private canStart(): boolean {
+    return !this.isAtConcurrency() && !this.isRateLimited();
+  }
+
+  private describeLimit(): string {
+    return this.isAtConcurrency()
+      ? `busy (${this.running} of ${this.limits.maxConcurrent} calls running)`
+      : `rate limited (${this.limits.rateLimit.calls} calls per ${this.limits.rateLimit.window}s)`;
+  }
+
+  private start(): ReleaseFn {
+    this.running++;
+    if (this.limits.rateLimit) {
+      this.starts.push(Date.now());
+    }
+    this.logStats('started');
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.running--;
+      this.logStats('finished');
+      this.pump();
+    };
+  }
+
+  private pump(): void {
+    while (this.queue.length > 0 && this.canStart()) {
+      const waiter = this.queue.shift();
+      if (waiter.onAbort) {
+        waiter.signal.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve(this.start());
+    }
+    this.scheduleRateRetry();
+  }
+
+  // Wake the queue when the oldest call leaves the rate window
+  private scheduleRateRetry(): void {
+    if (this.timer || this.queue.length === 0 || !this.isRateLimited()) return;
+
+    const delay = this.starts[0] + this.limits.rateLimit.window * 1000 - Date.now();
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, Math.max(delay, 0));
+  }
+
+  private logStats(event: string): void {
+    const rate = this.limits.rateLimit
+      ? `, ${this.starts.length}/${this.limits.rateLimit.calls} calls in ${this.limits.rateLimit.window}s window`
+      : '';
+    logger.debug(
+      `${this.label}: ${event}, running ${this.running}/${this.limits.maxConcurrent ?? '∞'}, ` +
+      `queued ${this.queue.length}/${this.limits.maxQueue ?? '∞'}${rate}`
+    );
+  }
+}
+
+const hasLimits = (limits?: LimitsConfig): boolean =>
+  !!limits && (limits.maxConcurrent !== undefined || limits.rateLimit !== undefined);
+
+/**
+ * Enforces per-tool and server-wide limits between the CallTool handler and the executor.
+ * A call takes a slot from its tool's limiter first, then from the server limiter.
+ */
+export class CallScheduler {
+  private serverLimiter?: Limiter;
+  private toolLimiters = new Map<string, Limiter>();
+
+  constructor(serverLimits: LimitsConfig | undefined, tools: Record<string, ToolDefinition>) {
+    if (hasLimits(serverLimits)) {
+      this.serverLimiter = new Limiter('Server', serverLimits);
+    }
+
+    Object.entries(tools).forEach(([name, definition]) => {
+      if (hasLimits(definition.limits)) {
+        this.toolLimiters.set(name, new Limiter(`Tool '${name}'`, definition.limits));
+      }
+    });
+  }
+
+  /**
+   * Wait for a slot for `toolName` (the config key).
+   * Rejects when a queue is full or the signal aborts while waiting.
+   *
+   * @returns Function that frees the slot; call it once the command has finished
+   */
+  async acquire(toolName: string, signal?: AbortSignal): Promise<ReleaseFn> {
+    const releaseTool = await this.toolLimiters.get(toolName)?.acquire(signal);
+
+    let releaseServer: ReleaseFn | undefined;
+    try {
+      releaseServer = await this.serverLimiter?.acquire(signal);
+    } catch (error) {
+      releaseTool?.();
+      throw error;
+    }
+
+    return () => {
+      releaseServer?.();
+      releaseTool?.();
+    };
+  }
+
+  /**
+   * Wait for a server-wide slot only, for commands without tool limits (resource reads).
+   */
+  async acquireServer(signal?: AbortSignal): Promise<ReleaseFn> {
+    const release = await this.serverLimiter?.acquire(signal);
+    return () => release?.();
+  }
+}
@@ -1,38 +1,135 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { MCPConfig, ServerOptions } from '../types/config.js';
-import { createMCPToolFromDefinition, createToolExecutor } from './tools.js';
+import {
+  CallToolRequestSchema,
+  ElicitResultSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { CommandResult, MCPConfig, ServerOptions, TemplateContext, ToolDefinition } from '../types/config.js';
+import { createMCPToolFromDefinition, createSecureToolExecutor, findTool } from './tools.js';
+import { createToolResult } from './results.js';
+import { createProgressReporter } from './progress.js';
+import { terminateAllProcesses } from './process.js';
+import { startHttpServer, HttpServerHandle } from './http.js';
+import { CallScheduler, ReleaseFn } from './scheduler.js';
+import { ResultCache, createCacheKey } from './cache.js';
+import { createConfirmation } from './confirmation.js';
+import { resolveSandbox } from './sandbox.js';
+import {
+  createMCPResource,
+  createMCPResourceTemplate,
+  createResourceResult,
+  createResourceToolDefinition,
+  findResource,
+  isResourceTemplate
+} from './resources.js';
+import { createMCPPrompt, renderPrompt } from './prompts.js';
+import { SecurityPolicyManager } from '../security/policies.js';
+import { AuditLogger, AuditRecord } from '../security/audit.js';
+import { validateToolInput, formatInputValidationErrors } from '../validation/input.js';
 import { createContextLogger } from '../utils/logger.js';
 
 const logger = createContextLogger('server');
 
 export class MCPWrapperServer {
-  private server: Server;
+  private server?: Server;
+  private httpServer?: HttpServerHandle;
+  private connectedServers = new Set<Server>();
   private config: MCPConfig;
   private options: ServerOptions;
+  private policyManager: SecurityPolicyManager;
+  private auditLogger: AuditLogger;
+  private scheduler: CallScheduler;
+  private resultCache: ResultCache;
 
   constructor(config: MCPConfig, options: ServerOptions) {
     this.config = config;
     this.options = options;
+    this.policyManager = SecurityPolicyManager.fromConfig(config.security);
+    this.auditLogger = new AuditLogger(this.policyManager.isAuditLoggingEnabled(), config.security?.auditLog);
+    this.scheduler = new CallScheduler(config.limits, config.tools);
+    this.resultCache = new ResultCache(config.tools);
+    this.logConfigSummary();
+  }
+
+  private logConfigSummary(): void {
+    const policy = this.policyManager.getPolicy();
+    logger.info(`Security level: ${policy.level}, default escape mode: ${policy.defaultEscapeMode}`);
+
+    Object.entries(this.config.tools).forEach(([name, definition]) => {
+      if (definition.unsafe) {
+        logger.warn(`Tool '${name}' is marked unsafe: input escaping is disabled`);
+      }
+    });
+  }
+
+  /**
+   * Swap in a new (already validated) configuration and notify connected clients
+   * that the tool, resource and prompt lists changed. Calls already running keep their original definition
+   * and their slots in the previous limits; new calls are counted against the new ones.
+   * Cached results are discarded.
+   */
+  async updateConfig(config: MCPConfig): Promise<void> {
+    this.config = config;
+    this.policyManager = SecurityPolicyManager.fromConfig(config.security);
+    this.scheduler = new CallScheduler(config.limits, config.tools);
+
+    const previousAuditLogger = this.auditLogger;
+    this.auditLogger = new AuditLogger(this.policyManager.isAuditLoggingEnabled(), config.security?.auditLog);
+    await previousAuditLogger.close();
 
-    this.server = new Server(
+    const previousCache = this.resultCache;
+    this.resultCache = new ResultCache({});
+    await previousCache.clear();
+    this.resultCache = new ResultCache(config.tools);
+
+    this.logConfigSummary();
+
+    const servers = [...this.connectedServers];
+    await Promise.allSettled(servers.flatMap(server => [
+      server.sendToolListChanged(),
+      server.sendResourceListChanged(),
+      server.sendPromptListChanged()
+    ]));
+    logger.info(`Configuration updated, notified ${servers.length} client(s)`);
+  }
+
+  private createServer(): Server {
+    const server = new Server(
       {
-        name: options.name || 'mcp-wrapper',
-        version: options.version || '1.0.0'
+        name: this.options.name || 'mcp-wrapper',
+        version: this.options.version || '1.0.0'
       },
       {
         capabilities: {
-          tools: {}
+          tools: {
+            listChanged: true
+          },
+          resources: {
+            listChanged: true
+          },
+          prompts: {
+            listChanged: true
+          }
         }
       }
     );
 
-    this.setupHandlers();
+    this.setupHandlers(server);
+    server.oninitialized = () => this.connectedServers.add(server);
+    server.onclose = () => this.connectedServers.delete(server);
+    return server;
   }
 
-  private setupHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools = Object.entries(this.config.tools).map(([name, definition]) =>
         createMCPToolFromDefinition(name, definition)
       );
@@ -41,61 +138,276 @@ export class MCPWrapperServer {
       return { tools };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const resources = Object.entries(this.config.resources || {})
+        .filter(([, definition]) => !isResourceTemplate(definition))
+        .map(([name, definition]) => createMCPResource(name, definition));
+
+      return { resources };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const resourceTemplates = Object.entries(this.config.resources || {})
+        .filter(([, definition]) => isResourceTemplate(definition))
+        .map(([name, definition]) => createMCPResourceTemplate(name, definition));
+
+      return { resourceTemplates };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+
+      const match = findResource(this.config.resources || {}, uri);
+      if (!match) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource '${uri}' not found`);
+      }
+
+      const { name, definition, variables } = match;
+      if (definition.text !== undefined) {
+        return createResourceResult(uri, definition);
+      }
+
+      logger.info(`Reading resource: ${uri}`);
+
+      const caller = {
+        sessionId: extra.sessionId,
+        client: server.getClientVersion()?.name
+      };
+      const toolDefinition = createResourceToolDefinition(definition, this.config.env, this.config.sandbox);
+
+      const { value: input, errors } = validateToolInput(variables, toolDefinition.input);
+      if (errors.length > 0) {
+        this.auditLogger.record({
+          tool: name,
+          resource: uri,
+          arguments: variables,
+          caller,
+          success: false,
+          error: `Invalid arguments: ${formatInputValidationErrors(errors)}`
+        });
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid URI variables for resource '${uri}':\n${formatInputValidationErrors(errors)}`
+        );
+      }
+
+      const executor = createSecureToolExecutor(toolDefinition, this.policyManager, this.options.timeout);
+
+      let release: ReleaseFn;
+      try {
+        release = await this.scheduler.acquireServer(extra.signal);
+      } catch (error) {
+        logger.warn(`Read of resource '${uri}' not started: ${error.message}`);
+        this.auditLogger.record({
+          tool: name,
+          resource: uri,
+          arguments: input,
+          caller,
+          success: false,
+          error: error.message
+        });
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
+      }
+
+      let result: CommandResult;
+      try {
+        result = await executor(input, { signal: extra.signal });
+      } finally {
+        release();
+      }
+
+      this.recordResult(name, input, caller, result, { resource: uri });
+      return createResourceResult(uri, definition, result);
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      const prompts = Object.entries(this.config.prompts || {}).map(([name, definition]) =>
+        createMCPPrompt(name, definition)
+      );
+
+      return { prompts };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      const entry = Object.entries(this.config.prompts || {}).find(([key, definition]) =>
+        key === name || definition.name === name
+      );
+      if (!entry) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' not found`);
+      }
+
+      return renderPrompt(entry[1], args);
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
       logger.info(`Executing tool: ${name}`);
 
       // Find tool by name (either config key or display name)
-      let definition = this.config.tools[name];
+      const found = findTool(this.config.tools, name);
+      if (!found) {
+        throw new Error(`Tool '${name}' not found`);
+      }
+      const [toolKey, definition] = found;
+
+      const caller = {
+        sessionId: extra.sessionId,
+        client: server.getClientVersion()?.name
+      };
 
-      if (!definition) {
-        // Look for tool by display name
-        const foundEntry = Object.entries(this.config.tools).find(([, tool]) =>
-          tool.name === name
+      const { value: input, errors } = validateToolInput(args, definition.input);
+      if (errors.length > 0) {
+        logger.warn(`Invalid arguments for tool '${name}': ${errors.length} error(s)`);
+        this.auditLogger.record({
+          tool: name,
+          arguments: args || {},
+          caller,
+          success: false,
+          error: `Invalid arguments: ${formatInputValidationErrors(errors)}`
+        });
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid arguments for tool '${name}':\n${formatInputValidationErrors(errors)}`,
+          { errors }
         );
-        if (foundEntry) {
-          definition = foundEntry[1];
-        }
       }
 
-      if (!definition) {
-        throw new Error(`Tool '${name}' not found`);
+      const resultCache = this.resultCache;
+      const cacheKey = this.getCacheKey(definition, input);
+      const cached = cacheKey && resultCache.get(toolKey, cacheKey);
+      if (cached) {
+        this.recordResult(name, input, caller, cached, { cached: true });
+        return createToolResult(cached, definition);
       }
-      const executor = createToolExecutor(definition);
-      const result = await executor(args || {});
-
-      if (result.success) {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: result.stdout || 'Command executed successfully'
-            }
-          ]
-        };
-      } else {
-        return {
-          content: [
-            {
-              type: 'text' as const,
-              text: `Error: ${result.stderr || 'Command failed'}`
-            }
-          ],
-          isError: true
-        };
+
+      const executor = createSecureToolExecutor(
+        {
+          ...definition,
+          env: { ...this.config.env, ...definition.env },
+          sandbox: resolveSandbox(this.config.sandbox, definition.sandbox)
+        },
+        this.policyManager,
+        this.options.timeout
+      );
+      const progress = createProgressReporter(
+        definition.progress,
+        request.params._meta?.progressToken,
+        extra.sendNotification
+      );
+
+      let release: ReleaseFn;
+      try {
+        release = await this.scheduler.acquire(toolKey, extra.signal);
+      } catch (error) {
+        logger.warn(`Call to tool '${name}' not started: ${error.message}`);
+        this.auditLogger.record({
+          tool: name,
+          arguments: input,
+          caller,
+          success: false,
+          error: error.message
+        });
+        progress.stop();
+        throw new McpError(ErrorCode.InvalidRequest, error.message);
       }
+
+      const confirm = createConfirmation(
+        name,
+        definition,
+        input,
+        server.getClientCapabilities()?.elicitation
+          ? (params) => extra.sendRequest({ method: 'elicitation/create', params }, ElicitResultSchema, { signal: extra.signal })
+          : undefined
+      );
+
+      let result: CommandResult;
+      try {
+        result = await executor(input, {
+          signal: extra.signal,
+          onStderrLine: progress.onStderrLine,
+          confirm
+        });
+      } finally {
+        progress.stop();
+        release();
+      }
+
+      if (cacheKey) {
+        resultCache.set(toolKey, cacheKey, result);
+      }
+
+      this.recordResult(name, input, caller, result);
+      return createToolResult(result, definition);
+    });
+  }
+
+  private getCacheKey(definition: ToolDefinition, input: TemplateContext): string | undefined {
+    if (!definition.cache) return undefined;
+
+    try {
+      return createCacheKey(definition, input);
+    } catch (error) {
+      // No command for this platform: the executor reports it
+      return undefined;
+    }
+  }
+
+  private recordResult(
+    name: string,
+    input: TemplateContext,
+    caller: AuditRecord['caller'],
+    result: CommandResult,
+    details: Pick<AuditRecord, 'cached' | 'resource'> = {}
+  ): void {
+    this.auditLogger.record({
+      tool: name,
+      ...details,
+      arguments: input,
+      caller,
+      renderedCommand: result.renderedCommand,
+      exitCode: result.exitCode,
+      success: result.success,
+      durationMs: result.durationMs,
+      stdoutBytes: result.stdoutBytes,
+      stderrBytes: result.stderrBytes,
+      truncated: result.truncated,
+      timedOut: result.timedOut,
+      cancelled: result.cancelled,
+      declined: result.declined,
+      error: result.success ? undefined : result.stderr
     });
   }
 
   async start(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    logger.info('MCP server started with stdio transport');
+    const transport = this.options.transport || 'stdio';
+
+    if (transport === 'stdio') {
+      this.server = this.createServer();
+      await this.server.connect(new StdioServerTransport());
+    } else {
+      this.httpServer = await startHttpServer({
+        transport,
+        host: this.options.host || '127.0.0.1',
+        port: this.options.port ?? 3000,
+        bearerToken: this.config.server?.auth?.bearerToken,
+        createServer: () => this.createServer()
+      });
+    }
+
+    logger.info(`MCP server started with ${transport} transport`);
   }
 
   async stop(): Promise<void> {
-    await this.server.close();
+    await terminateAllProcesses();
+    await this.server?.close();
+    await this.httpServer?.close();
+    await this.auditLogger.close();
+    await this.resultCache.flush();
+    this.server = undefined;
+    this.httpServer = undefined;
     logger.info('MCP server stopped');
   }
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+import { createSecureToolExecutor, executeSecureShellCommand, renderToolCommand } from './tools.js';
+import { SecurityPolicyManager } from '../security/policies.js';
+import { ToolDefinition } from '../types/config.js';
+
+// Prints its arguments as JSON, one entry per argv word; node consumes the `--` that ends its own options
+const PRINT_ARGS = 'process.stdout.write(JSON.stringify(process.argv.slice(1)))';
+
+const argvTool = (args: string[], properties: ToolDefinition['input']['properties'] = {}): ToolDefinition => ({
+  description: 'Test tool',
+  input: { type: 'object', properties },
+  args: [process.execPath, '-e', PRINT_ARGS, ...args]
+});
+
+describe('argv tools', () => {
+  const policyManager = new SecurityPolicyManager();
+
+  it('passes every value as a single argument, without a shell', async () => {
+    const execute = createSecureToolExecutor(argvTool(['--', '{{name}}']), policyManager);
+    const result = await execute({ name: "a b; echo 'c' $(id)" });
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(result.stdout)).toEqual(["a b; echo 'c' $(id)"]);
+    expect(result.renderedCommand).toEqual([process.execPath, '-e', PRINT_ARGS, '--', "a b; echo 'c' $(id)"]);
+  });
+
+  it('expands arrays and flags into separate arguments and drops missing values', async () => {
+    const execute = createSecureToolExecutor(argvTool(['--', '{{verbose}}', '{{files}}', '{{missing}}'], {
+      verbose: { type: 'boolean', flag: '-v' },
+      files: { type: 'array', items: { type: 'string' } },
+      missing: { type: 'string' }
+    }), policyManager);
+    const result = await execute({ verbose: true, files: ['a b', 'c'] });
+
+    expect(JSON.parse(result.stdout)).toEqual(['-v', 'a b', 'c']);
+  });
+
+  it('reports a missing executable as a failed call', async () => {
+    const execute = createSecureToolExecutor({
+      description: 'Test tool',
+      input: { type: 'object', properties: {} },
+      args: ['/nonexistent/mcp-wrapper-test']
+    }, policyManager);
+    const result = await execute({});
+
+    expect(result.success).toBe(false);
+    expect(result.stderr).toContain('ENOENT');
+  });
+
+  it('renders the argv without running it', () => {
+    expect(renderToolCommand(argvTool(['{{n}}'], { n: { type: 'integer' } }), { n: 3 }, policyManager))
+      .toEqual({ renderedCommand: [process.execPath, '-e', PRINT_ARGS, '3'], stdin: undefined });
+  });
+});
+
+describe('stdin', () => {
+  const policyManager = new SecurityPolicyManager();
+  const echoStdin = (stdin?: string): ToolDefinition => ({
+    description: 'Test tool',
+    input: { type: 'object', properties: { text: { type: 'string' } } },
+    args: [process.execPath, '-e', 'process.stdin.pipe(process.stdout)'],
+    stdin
+  });
+
+  it('writes the rendered template to stdin without escaping', async () => {
+    const execute = createSecureToolExecutor(echoStdin("say: {{text}}\n"), policyManager);
+    const result = await execute({ text: "it's <b> & $(id)" });
+
+    expect(result.stdout).toBe("say: it's <b> & $(id)\n");
+  });
+
+  it('gives tools without stdin an empty input instead of an open pipe', async () => {
+    const execute = createSecureToolExecutor(echoStdin(), policyManager);
+    const result = await execute({});
+
+    expect(result.success).toBe(true);
+    expect(result.stdout).toBe('');
+  });
+
+  it('includes the rendered stdin when rendering without running', () => {
+    expect(renderToolCommand(echoStdin('{{text}}'), { text: 'a;b' }, policyManager).stdin).toBe('a;b');
+  });
+});
+
+describe('output limits', () => {
+  const print = (bytes: number): ToolDefinition => ({
+    description: 'Test tool',
+    input: { type: 'object', properties: {} },
+    args: [process.execPath, '-e', `process.stdout.write('x'.repeat(${bytes}))`]
+  });
+
+  it('truncates output over maxOutputBytes and lets the command finish', async () => {
+    const execute = createSecureToolExecutor(print(5000), new SecurityPolicyManager('moderate', { maxOutputBytes: 100 }));
+    const result = await execute({});
+
+    expect(result.success).toBe(true);
+    expect(result.truncated).toBe(true);
+    expect(result.stdoutBytes).toBe(5000);
+    expect(result.stdout).toBe(`${'x'.repeat(100)}\n[output truncated: 4900 bytes omitted]`);
+  });
+
+  it('fails the call with onOverflow: fail', async () => {
+    const execute = createSecureToolExecutor(
+      { ...print(5000), output: { onOverflow: 'fail' } },
+      new SecurityPolicyManager('moderate', { maxOutputBytes: 100 })
+    );
+    const result = await execute({});
+
+    expect(result.success).toBe(false);
+    expect(result.stderr).toBe('Command stdout exceeded 100 bytes');
+  });
+});
+
+describe('timeouts', () => {
+  it('stops a command at its timeout and reports it distinctly', async () => {
+    const result = await executeSecureShellCommand(
+      'echo started; sleep 30',
+      {},
+      undefined,
+      { policyManager: new SecurityPolicyManager(), escapeMode: 'quote' },
+      { timeout: 200 }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(result.exitCode).toBe(124);
+    expect(result.stdout).toBe('started\n');
+    expect(result.stderr).toMatch(/^Command timed out after 200ms/);
+  });
+
+  it('caps the timeout at the policy maximum', async () => {
+    const policyManager = new SecurityPolicyManager('moderate', { maxExecutionTimeout: 1 });
+    const execute = createSecureToolExecutor({ ...argvTool([]), args: ['sleep', '30'], timeout: 60 }, policyManager);
+    const result = await execute({});
+
+    expect(result.timedOut).toBe(true);
+    expect(result.stderr).toMatch(/^Command timed out after 1000ms/);
+  });
+});
+
+describe('cancellation', () => {
+  it('terminates the command when the signal aborts', async () => {
+    const controller = new AbortController();
+    const execute = createSecureToolExecutor({ ...argvTool([]), args: ['sleep', '30'] }, new SecurityPolicyManager());
+    const running = execute({}, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 100);
+
+    const result = await running;
+    expect(result.success).toBe(false);
+    expect(result.cancelled).toBe(true);
+    expect(result.stderr).toMatch(/^Command cancelled after \d+ms/);
+  });
+
+  it('does not start a command whose signal already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const execute = createSecureToolExecutor({ ...argvTool([]), args: ['sleep', '30'] }, new SecurityPolicyManager());
+
+    const start = Date.now();
+    expect((await execute({}, { signal: controller.signal })).cancelled).toBe(true);
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+
+  it('passes stderr lines to onStderrLine, including a last line without a newline', async () => {
+    const lines: string[] = [];
+    const execute = createSecureToolExecutor(
+      { ...argvTool([]), args: [process.execPath, '-e', "process.stderr.write('10%\\r\\n50%\\ndone')"] },
+      new SecurityPolicyManager()
+    );
+    await execute({}, { onStderrLine: line => lines.push(line) });
+
+    expect(lines).toEqual(['10%', '50%', 'done']);
+  });
+});
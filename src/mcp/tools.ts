@@ -1,47 +1,98 @@
 import { spawn } from 'child_process';
+import { existsSync } from 'fs';
 import { platform } from 'os';
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
-import { ToolDefinition, CommandResult, TemplateContext, PlatformCommands } from '../types/config.js';
-import { renderTemplate, renderSecureTemplate, SecureTemplateContext } from '../templating/mustache.js';
+import {
+  ToolDefinition,
+  CommandResult,
+  TemplateContext,
+  PlatformCommands,
+  PlatformArgs,
+  ExecutionOptions
+} from '../types/config.js';
+import {
+  renderSecureTemplate,
+  renderSecureArgs,
+  renderDataTemplate,
+  SecureTemplateContext
+} from '../templating/mustache.js';
 import { SecurityPolicyManager } from '../security/policies.js';
+import { createOutputBuffer, OutputBuffer } from './output.js';
+import { terminateProcessTree, trackProcess } from './process.js';
+import { buildProcessEnv } from './environment.js';
+import { isSandboxed, SandboxedCommand, wrapInSandbox } from './sandbox.js';
 import { createContextLogger } from '../utils/logger.js';
 
 const logger = createContextLogger('tools');
 
 export const createMCPToolFromDefinition = (name: string, definition: ToolDefinition): Tool => {
-  return {
+  const tool: Tool = {
     name: definition.name || name,
     description: definition.description,
     inputSchema: definition.input
   };
-};
 
-export const getPlatformCommand = (cmd: string | PlatformCommands): string => {
-  if (typeof cmd === 'string') {
-    return cmd;
+  if (definition.output?.format === 'json' && definition.output.outputSchema) {
+    tool.outputSchema = definition.output.outputSchema;
   }
 
+  return tool;
+};
+
+const selectPlatformVariant = <T>(variants: { win?: T; macos?: T; unix?: T; default?: T }): T => {
   const currentPlatform = platform();
 
-  if (currentPlatform === 'win32' && cmd.win) {
-    return cmd.win;
+  if (currentPlatform === 'win32' && variants.win) {
+    return variants.win;
   }
 
-  if (currentPlatform === 'darwin' && cmd.macos) {
-    return cmd.macos;
+  if (currentPlatform === 'darwin' && variants.macos) {
+    return variants.macos;
   }
 
-  if ((currentPlatform === 'linux' || currentPlatform === 'freebsd') && cmd.unix) {
-    return cmd.unix;
+  if ((currentPlatform === 'linux' || currentPlatform === 'freebsd') && variants.unix) {
+    return variants.unix;
   }
 
-  if (cmd.default) {
-    return cmd.default;
+  if (variants.default) {
+    return variants.default;
   }
 
   throw new Error(`No command defined for platform: ${currentPlatform}`);
 };
 
+/**
+ * Find a tool by config key or display `name`.
+ *
+ * @returns The config key and definition, or undefined
+ */
+export const findTool = (
+  tools: Record<string, ToolDefinition>,
+  name: string
+): [string, ToolDefinition] | undefined => {
+  if (tools[name]) {
+    return [name, tools[name]];
+  }
+
+  return Object.entries(tools).find(([, tool]) => tool.name === name);
+};
+
+export const getPlatformCommand = (cmd: string | PlatformCommands): string => {
+  if (typeof cmd === 'string') {
+    return cmd;
+  }
+
+  return selectPlatformVariant(cmd);
+};
+
+export const getPlatformArgs = (args: string[] | PlatformArgs): string[] => {
+  if (Array.isArray(args)) {
+    return args;
+  }
+
+  return selectPlatformVariant(args);
+};
+
 export const getShellCommand = (): { shell: string; args: string[] } => {
   const currentPlatform = platform();
 
@@ -52,131 +103,251 @@ export const getShellCommand = (): { shell: string; args: string[] } => {
   return { shell: 'sh', args: ['-c'] };
 };
 
-export const executeShellCommand = async (
-  command: string | PlatformCommands,
-  context: TemplateContext,
-  timeout = 30000
+// Same convention as coreutils `timeout`
+const TIMEOUT_EXIT_CODE = 124;
+
+const spawnSecureProcess = (
+  file: string,
+  argv: string[],
+  secureContext: SecureTemplateContext,
+  timeout: number,
+  options: ExecutionOptions
 ): Promise<CommandResult> => {
-  const platformCommand = getPlatformCommand(command);
-  const renderedCommand = renderTemplate(platformCommand, context);
-  const { shell, args } = getShellCommand();
+  const successExitCodes = options.successExitCodes || [0];
+  const overflowMode = options.onOverflow || 'truncate';
+  const policy = secureContext.policyManager.getPolicy();
 
-  logger.debug(`Executing command: ${renderedCommand}`);
+  let sandboxed: SandboxedCommand;
+  try {
+    sandboxed = wrapInSandbox(file, argv, options.sandbox, { allowedPaths: policy.allowedPaths, cwd: options.cwd });
+  } catch (error) {
+    logger.error(`Sandbox setup failed: ${error.message}`);
+    return Promise.resolve({ stdout: '', stderr: `Sandbox setup failed: ${error.message}`, exitCode: 1, success: false });
+  }
+  // A wrapper that cannot be started (e.g. bwrap not installed) is a sandbox failure, not the command's
+  const errorPrefix = sandboxed.file !== file ? 'Sandbox setup failed: ' : '';
 
   return new Promise((resolve) => {
-    const child = spawn(shell, [...args, renderedCommand], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      timeout
+    const startTime = Date.now();
+    const child = spawn(sandboxed.file, sandboxed.argv, {
+      // Without `stdin`, the child reads /dev/null instead of waiting on an open pipe
+      stdio: [options.stdin !== undefined ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+      shell: false,
+      env: options.env,
+      cwd: options.cwd,
+      // Own process group, so the whole tree can be killed
+      detached: platform() !== 'win32'
     });
+    trackProcess(child);
 
-    let stdout = '';
-    let stderr = '';
+    if (child.stdin) {
+      // The child may exit without reading everything; its exit status decides the result
+      child.stdin.on('error', (error) => logger.debug(`Could not write stdin: ${error.message}`));
+      child.stdin.end(options.stdin);
+    }
 
-    child.stdout?.on('data', (data) => {
-      stdout += data.toString();
-    });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      logger.warn(`Command timed out after ${timeout}ms, terminating process tree`);
+      terminateProcessTree(child);
+    }, timeout);
+
+    let cancelled = false;
+    const onAbort = () => {
+      cancelled = true;
+      logger.info('Command cancelled by client, terminating process tree');
+      terminateProcessTree(child);
+    };
+    if (options.signal?.aborted) {
+      onAbort();
+    } else {
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+    }
 
-    child.stderr?.on('data', (data) => {
-      stderr += data.toString();
-    });
+    let pendingLine = '';
+    const splitLines = (data: Buffer) => {
+      const lines = (pendingLine + data.toString('utf8')).split(/\r?\n/);
+      pendingLine = lines.pop() || '';
+      lines.forEach(line => options.onStderrLine(line));
+    };
+    // The last line may have no trailing newline
+    const flushLine = () => {
+      if (pendingLine) options.onStderrLine(pendingLine);
+      pendingLine = '';
+    };
 
-    child.on('close', (code) => {
-      const result: CommandResult = {
-        stdout: stdout.trim(),
-        stderr: stderr.trim(),
-        exitCode: code || 0,
-        success: (code || 0) === 0
-      };
+    const stdout = createOutputBuffer(policy.maxOutputBytes, overflowMode);
+    const stderr = createOutputBuffer(policy.maxStderrBytes, overflowMode);
+    let overflowError: string | undefined;
+
+    const collect = (buffer: OutputBuffer, limit: number, stream: string) => (data: Buffer) => {
+      if (!buffer.push(data) && !overflowError) {
+        overflowError = `Command ${stream} exceeded ${limit} bytes`;
+        logger.warn(`${overflowError}, terminating`);
+        terminateProcessTree(child);
+      }
+    };
 
-      logger.debug(`Command completed with exit code: ${result.exitCode}`);
+    child.stdout?.on('data', collect(stdout, policy.maxOutputBytes, 'stdout'));
+    child.stderr?.on('data', collect(stderr, policy.maxStderrBytes, 'stderr'));
+    if (options.onStderrLine) {
+      child.stderr?.on('data', splitLines);
+      child.stderr?.on('end', flushLine);
+    }
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+      const durationMs = Date.now() - startTime;
+      const truncated = stdout.omittedBytes > 0 || stderr.omittedBytes > 0;
+      if (truncated && !overflowError) {
+        logger.warn(`Command output truncated: ${stdout.omittedBytes + stderr.omittedBytes} bytes omitted`);
+      }
+
+      let result: CommandResult;
+      if (cancelled) {
+        result = {
+          stdout: stdout.toString(),
+          stderr: `Command cancelled after ${durationMs}ms`,
+          exitCode: code ?? 1,
+          success: false,
+          truncated,
+          cancelled,
+          durationMs
+        };
+      } else if (timedOut) {
+        const partialStderr = stderr.toString();
+        result = {
+          stdout: stdout.toString(),
+          stderr: `Command timed out after ${timeout}ms (ran for ${durationMs}ms)` +
+            (partialStderr ? `\n${partialStderr}` : ''),
+          exitCode: TIMEOUT_EXIT_CODE,
+          success: false,
+          truncated,
+          timedOut,
+          durationMs
+        };
+      } else if (overflowError) {
+        result = {
+          stdout: '',
+          stderr: overflowError,
+          exitCode: code ?? 1,
+          success: false,
+          truncated,
+          durationMs
+        };
+      } else {
+        // Killed by a signal without an exit code counts as failure
+        const exitCode = code ?? 1;
+        result = {
+          stdout: stdout.toString(),
+          stderr: stderr.toString() || (signal ? `Command terminated by ${signal}` : ''),
+          exitCode,
+          success: signal === null && successExitCodes.includes(exitCode),
+          truncated,
+          durationMs
+        };
+      }
+
+      result.stdoutBytes = stdout.totalBytes;
+      result.stderrBytes = stderr.totalBytes;
+
+      logger.debug(`Secure command completed with exit code: ${result.exitCode}`);
       resolve(result);
     });
 
     child.on('error', (error) => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
       const result: CommandResult = {
         stdout: '',
-        stderr: error.message,
+        stderr: `${errorPrefix}${error.message}`,
         exitCode: 1,
         success: false
       };
 
-      logger.error(`Command execution failed: ${error.message}`);
+      logger.error(`Secure command execution failed: ${errorPrefix}${error.message}`);
       resolve(result);
     });
   });
 };
 
+/**
+ * Run the `confirm` hook, if any. Returns the failed result to report when the call was not approved.
+ */
+const checkConfirmation = async (
+  renderedCommand: string | string[],
+  options: ExecutionOptions
+): Promise<CommandResult | undefined> => {
+  if (!options.confirm) return undefined;
+
+  const { approved, reason } = await options.confirm(renderedCommand);
+  if (approved) return undefined;
+
+  return {
+    stdout: '',
+    stderr: reason || 'Call was not confirmed',
+    exitCode: 1,
+    success: false,
+    declined: true,
+    renderedCommand
+  };
+};
+
 export const executeSecureShellCommand = async (
   command: string | PlatformCommands,
   context: TemplateContext,
   inputSchema: any,
   secureContext: SecureTemplateContext,
-  timeout?: number
+  options: ExecutionOptions = {}
 ): Promise<CommandResult> => {
   try {
     const platformCommand = getPlatformCommand(command);
     const renderedCommand = renderSecureTemplate(platformCommand, context, secureContext, inputSchema);
-    const actualTimeout = timeout || secureContext.policyManager.getMaxExecutionTimeout();
+    const actualTimeout = secureContext.policyManager.resolveTimeout(options.timeout);
 
     const { shell, args } = getShellCommand();
 
+    const declined = await checkConfirmation(renderedCommand, options);
+    if (declined) return declined;
+
     logger.info(`Executing secure command with timeout: ${actualTimeout}ms`);
     logger.debug(`Secure command: ${renderedCommand}`);
 
-    return new Promise((resolve) => {
-      const child = spawn(shell, [...args, renderedCommand], {
-        stdio: ['pipe', 'pipe', 'pipe'],
-        timeout: actualTimeout
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      child.stdout?.on('data', (data) => {
-        stdout += data.toString();
-
-        if (stdout.length > secureContext.policyManager.getPolicy().maxInputLength) {
-          logger.warn('Command output exceeding length limits, truncating');
-          child.kill('SIGTERM');
-        }
-      });
-
-      child.stderr?.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      child.on('close', (code) => {
-        const result: CommandResult = {
-          stdout: stdout.trim(),
-          stderr: stderr.trim(),
-          exitCode: code || 0,
-          success: (code || 0) === 0
-        };
-
-        if (secureContext.policyManager.isAuditLoggingEnabled()) {
-          logger.info(`AUDIT: Command executed - Exit Code: ${result.exitCode}, Success: ${result.success}`);
-        }
+    const result = await spawnSecureProcess(shell, [...args, renderedCommand], secureContext, actualTimeout, options);
+    return { ...result, renderedCommand };
+  } catch (error) {
+    logger.error(`Secure command preparation failed: ${error.message}`);
+    return {
+      stdout: '',
+      stderr: `Security validation failed: ${error.message}`,
+      exitCode: 1,
+      success: false
+    };
+  }
+};
 
-        logger.debug(`Secure command completed with exit code: ${result.exitCode}`);
-        resolve(result);
-      });
+export const executeSecureArgvCommand = async (
+  args: string[] | PlatformArgs,
+  context: TemplateContext,
+  inputSchema: any,
+  secureContext: SecureTemplateContext,
+  options: ExecutionOptions = {}
+): Promise<CommandResult> => {
+  try {
+    const [executable, ...argTemplates] = getPlatformArgs(args);
+    const renderedArgs = renderSecureArgs(argTemplates, context, secureContext, inputSchema);
+    const actualTimeout = secureContext.policyManager.resolveTimeout(options.timeout);
 
-      child.on('error', (error) => {
-        const result: CommandResult = {
-          stdout: '',
-          stderr: error.message,
-          exitCode: 1,
-          success: false
-        };
+    const declined = await checkConfirmation([executable, ...renderedArgs], options);
+    if (declined) return declined;
 
-        if (secureContext.policyManager.isAuditLoggingEnabled()) {
-          logger.error(`AUDIT: Command execution failed - Error: ${error.message}`);
-        }
+    logger.info(`Executing secure command with timeout: ${actualTimeout}ms`);
+    logger.debug(`Secure argv: ${JSON.stringify([executable, ...renderedArgs])}`);
 
-        logger.error(`Secure command execution failed: ${error.message}`);
-        resolve(result);
-      });
-    });
+    const result = await spawnSecureProcess(executable, renderedArgs, secureContext, actualTimeout, options);
+    return { ...result, renderedCommand: [executable, ...renderedArgs] };
   } catch (error) {
     logger.error(`Secure command preparation failed: ${error.message}`);
     return {
@@ -188,37 +359,100 @@ export const executeSecureShellCommand = async (
   }
 };
 
-export const createToolExecutor = (definition: ToolDefinition) => {
-  return async (input: TemplateContext): Promise<CommandResult> => {
-    try {
-      return await executeShellCommand(definition.cmd, input);
-    } catch (error) {
-      logger.error(`Tool execution failed: ${error.message}`);
-      return {
-        stdout: '',
-        stderr: error.message,
-        exitCode: 1,
-        success: false
-      };
-    }
-  };
+const createSecureContext = (definition: ToolDefinition, policyManager: SecurityPolicyManager): SecureTemplateContext => ({
+  policyManager,
+  cwd: definition.cwd,
+  escapeMode: definition.escapeMode || policyManager.getDefaultEscapeMode(),
+  unsafe: definition.unsafe === true
+});
+
+export interface RenderedToolCommand {
+  // Shell command string for `cmd` tools, argv for `args` tools
+  renderedCommand: string | string[];
+  // Shell and its arguments, for `cmd` tools
+  shell?: string[];
+  stdin?: string;
+}
+
+/**
+ * Render a tool's command for the current platform exactly as the executor would, without running it.
+ * Throws when rendering fails (e.g. input too long, or a value rejected by its security type).
+ */
+export const renderToolCommand = (
+  definition: ToolDefinition,
+  input: TemplateContext,
+  policyManager: SecurityPolicyManager
+): RenderedToolCommand => {
+  const secureContext = createSecureContext(definition, policyManager);
+  const stdin = definition.stdin !== undefined ? renderDataTemplate(definition.stdin, input) : undefined;
+
+  if (definition.args) {
+    const [executable, ...argTemplates] = getPlatformArgs(definition.args);
+    const renderedArgs = renderSecureArgs(argTemplates, input, secureContext, definition.input);
+    return { renderedCommand: [executable, ...renderedArgs], stdin };
+  }
+
+  const renderedCommand = renderSecureTemplate(
+    getPlatformCommand(definition.cmd), input, secureContext, definition.input
+  );
+  const { shell, args } = getShellCommand();
+  return { renderedCommand, shell: [shell, ...args], stdin };
 };
 
+/**
+ * @param defaultTimeout Timeout in seconds for tools without their own `timeout` (e.g. the CLI `--timeout`).
+ *                       Both are capped by the policy's maxExecutionTimeout.
+ */
 export const createSecureToolExecutor = (
   definition: ToolDefinition,
-  policyManager: SecurityPolicyManager
+  policyManager: SecurityPolicyManager,
+  defaultTimeout?: number
 ) => {
-  const allowedPaths = policyManager.getPolicy().allowedPaths;
-  const escapeMode = definition.escapeMode || policyManager.getDefaultEscapeMode();
-  const secureContext: SecureTemplateContext = { allowedPaths, policyManager, escapeMode };
+  const secureContext = createSecureContext(definition, policyManager);
+  const timeoutSeconds = definition.timeout ?? defaultTimeout;
+  const executionOptions: ExecutionOptions = {
+    timeout: timeoutSeconds !== undefined ? timeoutSeconds * 1000 : undefined,
+    successExitCodes: definition.output?.successExitCodes,
+    onOverflow: definition.output?.onOverflow
+  };
 
-  return async (input: TemplateContext): Promise<CommandResult> => {
+  return async (
+    input: TemplateContext,
+    callOptions: Pick<ExecutionOptions, 'signal' | 'onStderrLine' | 'confirm'> = {}
+  ): Promise<CommandResult> => {
     try {
+      if (definition.cwd && !existsSync(definition.cwd)) {
+        throw new Error(`Working directory does not exist: ${definition.cwd}`);
+      }
+      if (policyManager.requiresSandbox() && !isSandboxed(definition.sandbox)) {
+        throw new Error('Security policy requires a sandbox, but none is configured for this command');
+      }
+
+      const options: ExecutionOptions = {
+        ...executionOptions,
+        ...callOptions,
+        env: buildProcessEnv(definition, input),
+        cwd: definition.cwd,
+        sandbox: definition.sandbox,
+        stdin: definition.stdin !== undefined ? renderDataTemplate(definition.stdin, input) : undefined
+      };
+
+      if (definition.args) {
+        return await executeSecureArgvCommand(
+          definition.args,
+          input,
+          definition.input,
+          secureContext,
+          options
+        );
+      }
+
       return await executeSecureShellCommand(
         definition.cmd,
         input,
         definition.input,
-        secureContext
+        secureContext,
+        options
       );
     } catch (error) {
       logger.error(`Secure tool execution failed: ${error.message}`);
@@ -230,4 +464,29 @@ export const createSecureToolExecutor = (
       };
     }
   };
-};
\ No newline at end of file
+};
+
+/**
+ * @deprecated Use `executeSecureShellCommand`. Runs with the default (moderate) policy:
+ * values are escaped and the timeout is capped by its maxExecutionTimeout.
+ */
+export const executeShellCommand = (
+  command: string | PlatformCommands,
+  context: TemplateContext,
+  timeout?: number
+): Promise<CommandResult> => {
+  const policyManager = new SecurityPolicyManager();
+  return executeSecureShellCommand(
+    command,
+    context,
+    undefined,
+    { policyManager, escapeMode: policyManager.getDefaultEscapeMode() },
+    { timeout }
+  );
+};
+
+/**
+ * @deprecated Use `createSecureToolExecutor`. Runs the tool under the default (moderate) policy.
+ */
+export const createToolExecutor = (definition: ToolDefinition) =>
+  createSecureToolExecutor(definition, new SecurityPolicyManager());
@@ -0,0 +1,72 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { AuditLogger } from './audit.js';
+import { registerSecret } from './secrets.js';
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'mcp-audit-'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const readRecords = (file: string) =>
+  readFileSync(file, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+
+describe('AuditLogger', () => {
+  it('writes one JSON record per call to the audit file', async () => {
+    const file = join(root, 'audit.jsonl');
+    const audit = new AuditLogger(true, { file });
+
+    audit.record({ tool: 'list', arguments: { path: '/tmp' }, renderedCommand: ['ls', '/tmp'], exitCode: 0, success: true, durationMs: 12 });
+    audit.record({ tool: 'list', arguments: {}, success: false, error: 'Invalid arguments' });
+    await audit.close();
+
+    const records = readRecords(file);
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({ tool: 'list', arguments: { path: '/tmp' }, renderedCommand: ['ls', '/tmp'], exitCode: 0, success: true });
+    expect(records[0].timestamp).toMatch(/^\d{4}-\d\d-\d\dT/);
+    expect(records[0]).not.toHaveProperty('level');
+    expect(records[1]).toMatchObject({ success: false, error: 'Invalid arguments' });
+  });
+
+  it('redacts registered secrets', async () => {
+    const file = join(root, 'secrets.jsonl');
+    const audit = new AuditLogger(true, { file });
+    registerSecret('audit-secret-value');
+
+    audit.record({ tool: 'deploy', arguments: { token: 'audit-secret-value' }, renderedCommand: 'deploy audit-secret-value', success: true });
+    await audit.close();
+
+    const [record] = readRecords(file);
+    expect(record.arguments.token).toBe('***');
+    expect(record.renderedCommand).toBe('deploy ***');
+  });
+
+  it('closes a file that is already open without losing records', async () => {
+    const file = join(root, 'open.jsonl');
+    const audit = new AuditLogger(true, { file });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    audit.record({ tool: 'list', arguments: {}, success: true });
+    await audit.close();
+
+    expect(readRecords(file)).toHaveLength(1);
+  });
+
+  it('writes nothing when disabled', async () => {
+    const file = join(root, 'disabled.jsonl');
+    const audit = new AuditLogger(false, { file });
+
+    audit.record({ tool: 'list', arguments: {}, success: true });
+    await audit.close();
+
+    expect(audit.isEnabled()).toBe(false);
+    expect(existsSync(file)).toBe(false);
+  });
+});
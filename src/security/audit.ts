@@ -0,0 +1,120 @@
+import { WriteStream } from 'fs';
+import winston from 'winston';
+import { AuditLogConfig } from '../types/config.js';
+import { redactSecrets } from './secrets.js';
+import { createContextLogger } from '../utils/logger.js';
+
+const logger = createContextLogger('audit');
+
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+const DEFAULT_MAX_FILES = 5;
+
+export interface AuditRecord {
+  // Tool name, or the config key of a command-backed resource
+  tool: string;
+  // URI read, for resources
+  resource?: string;
+  arguments: Record<string, unknown>;
+  caller?: {
+    sessionId?: string;
+    client?: string;
+  };
+  // Served from the result cache without running the command
+  cached?: boolean;
+  renderedCommand?: string | string[];
+  exitCode?: number;
+  success: boolean;
+  durationMs?: number;
+  stdoutBytes?: number;
+  stderrBytes?: number;
+  truncated?: boolean;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  // Refused at the confirmation prompt
+  declined?: boolean;
+  error?: string;
+}
+
+// One JSON object per line, secrets redacted from the serialized record
+const jsonLine = winston.format.printf(({ level: _level, message: _message, timestamp, ...record }) =>
+  redactSecrets(JSON.stringify({ timestamp, ...record }))
+);
+
+/**
+ * Resolves once a file transport has closed its file. Winston reports `finish` before the file is written,
+ * so this waits for the transport's own file stream, which exists once the file is being opened.
+ */
+const fileClosed = (transport: winston.transport): Promise<void> => new Promise((resolve) => {
+  const fileTransport = transport as unknown as { _dest?: WriteStream };
+  const waitForClose = () => {
+    if (!fileTransport._dest || fileTransport._dest.closed) {
+      resolve();
+      return;
+    }
+    fileTransport._dest.once('close', () => resolve());
+  };
+
+  if (fileTransport._dest) {
+    waitForClose();
+  } else {
+    transport.once('open', waitForClose);
+    transport.once('error', () => resolve());
+  }
+});
+
+/**
+ * Records every tool invocation when audit logging is enabled.
+ * Writes JSON Lines to `auditLog.file` (rotated by size), or to the console logger when no file is configured.
+ */
+export class AuditLogger {
+  private enabled: boolean;
+  private fileLogger?: winston.Logger;
+
+  constructor(enabled: boolean, config?: AuditLogConfig) {
+    this.enabled = enabled;
+
+    if (enabled && config?.file) {
+      this.fileLogger = winston.createLogger({
+        level: 'info',
+        format: winston.format.combine(winston.format.timestamp(), jsonLine),
+        transports: [
+          new winston.transports.File({
+            filename: config.file,
+            maxsize: config.maxSize || DEFAULT_MAX_SIZE,
+            maxFiles: config.maxFiles || DEFAULT_MAX_FILES,
+            tailable: true
+          })
+        ]
+      });
+      logger.info(`Writing audit log to ${config.file}`);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  record(record: AuditRecord): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    if (this.fileLogger) {
+      this.fileLogger.info('audit', record);
+    } else {
+      logger.info(`AUDIT: ${JSON.stringify({ timestamp: new Date().toISOString(), ...record })}`);
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.fileLogger) {
+      return;
+    }
+
+    const fileLogger = this.fileLogger;
+    this.fileLogger = undefined;
+    const closed = fileLogger.transports.map(fileClosed);
+    fileLogger.end();
+    await Promise.all(closed);
+  }
+}
@@ -0,0 +1,112 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { checkPath, isWithinPath, PathPolicy, resolveRealPath } from './paths.js';
+
+let root: string;
+let data: string;
+let outside: string;
+
+beforeAll(() => {
+  root = realpathSync(mkdtempSync(join(tmpdir(), 'mcp-paths-')));
+  data = join(root, 'data');
+  outside = join(root, 'outside');
+  mkdirSync(join(data, 'sub'), { recursive: true });
+  mkdirSync(outside);
+  writeFileSync(join(data, 'file.txt'), 'ok');
+  writeFileSync(join(data, 'app.env'), 'SECRET=1');
+  writeFileSync(join(outside, 'secret.txt'), 'no');
+
+  symlinkSync(outside, join(data, 'escape'));
+  symlinkSync(join(outside, 'secret.txt'), join(data, 'link.txt'));
+  symlinkSync(join(root, 'missing'), join(data, 'dangling'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('resolveRealPath', () => {
+  it('resolves relative paths against cwd', () => {
+    expect(resolveRealPath('file.txt', data)).toBe(join(data, 'file.txt'));
+    expect(resolveRealPath('./sub/../file.txt', data)).toBe(join(data, 'file.txt'));
+  });
+
+  it('follows symlinks before applying ..', () => {
+    expect(resolveRealPath(join(data, 'escape', 'secret.txt'))).toBe(join(outside, 'secret.txt'));
+    // Built with a template string, since join() would drop `escape/..` lexically
+    expect(resolveRealPath(`${data}/escape/../data`)).toBe(data);
+    expect(resolveRealPath(`${data}/escape/..`)).toBe(root);
+  });
+
+  it('keeps components that do not exist yet', () => {
+    expect(resolveRealPath(join(data, 'new', 'file.txt'))).toBe(join(data, 'new', 'file.txt'));
+  });
+
+  it('resolves a dangling symlink to its target', () => {
+    expect(resolveRealPath(join(data, 'dangling', 'x'))).toBe(join(root, 'missing', 'x'));
+  });
+});
+
+describe('isWithinPath', () => {
+  it('compares whole components', () => {
+    expect(isWithinPath('/home/user/a', '/home/user')).toBe(true);
+    expect(isWithinPath('/home/user', '/home/user')).toBe(true);
+    expect(isWithinPath('/home/user2', '/home/user')).toBe(false);
+  });
+});
+
+describe('checkPath', () => {
+  const policy = (overrides: Partial<PathPolicy> = {}): PathPolicy => ({
+    allowedPaths: [data],
+    deniedPaths: [],
+    ...overrides
+  });
+
+  it('returns the resolved path of an allowed input', () => {
+    expect(checkPath('file.txt', policy(), { cwd: data })).toBe(join(data, 'file.txt'));
+  });
+
+  it('rejects .. that leaves the allowed paths', () => {
+    expect(() => checkPath(`${data}/../outside/secret.txt`, policy())).toThrow('is not in the allowed paths');
+  });
+
+  it('rejects symlinks pointing outside the allowed paths', () => {
+    expect(() => checkPath(join(data, 'link.txt'), policy())).toThrow(`Path '${join(outside, 'secret.txt')}'`);
+    expect(() => checkPath(join(data, 'escape', 'secret.txt'), policy())).toThrow('is not in the allowed paths');
+  });
+
+  it('applies denied paths before allowed paths', () => {
+    expect(() => checkPath(join(data, 'sub', 'x'), policy({ deniedPaths: [join(data, 'sub')] })))
+      .toThrow(`is denied by '${join(data, 'sub')}'`);
+  });
+
+  it('matches glob entries against the path and its parents', () => {
+    const envFiles = join(root, '**', '*.env');
+    expect(() => checkPath(join(data, 'app.env'), policy({ deniedPaths: [envFiles] }))).toThrow(`denied by '${envFiles}'`);
+    expect(() => checkPath(join(data, 'sub', 'x'), policy({ deniedPaths: [join(root, '*', 'sub')] }))).toThrow('is denied');
+    expect(checkPath(join(data, 'file.txt'), policy({ deniedPaths: [envFiles] }))).toBe(join(data, 'file.txt'));
+  });
+
+  it('does not treat a sibling with a common prefix as inside', () => {
+    expect(() => checkPath(`${data}2/file.txt`, policy())).toThrow('is not in the allowed paths');
+  });
+
+  it('checks write access against writablePaths', () => {
+    const writable = policy({ writablePaths: [join(data, 'sub')] });
+    expect(checkPath(join(data, 'sub', 'out.txt'), writable, { mode: 'write' })).toBe(join(data, 'sub', 'out.txt'));
+    expect(() => checkPath(join(data, 'file.txt'), writable, { mode: 'write' })).toThrow('is not in the writable paths');
+    expect(checkPath(join(data, 'file.txt'), writable)).toBe(join(data, 'file.txt'));
+  });
+
+  it('allows any path not denied when allowedPaths is empty', () => {
+    expect(checkPath(join(outside, 'secret.txt'), policy({ allowedPaths: [] }))).toBe(join(outside, 'secret.txt'));
+  });
+
+  it('rejects empty paths, null bytes and missing files under mustExist', () => {
+    expect(() => checkPath('', policy())).toThrow('Path is empty');
+    expect(() => checkPath(`${data}/a\0b`, policy())).toThrow('null byte');
+    expect(() => checkPath(join(data, 'nope.txt'), policy(), { mustExist: true })).toThrow('does not exist');
+  });
+});
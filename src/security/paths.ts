@@ -0,0 +1,139 @@
+import { existsSync, lstatSync, readlinkSync, realpathSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, isAbsolute, join, parse, resolve, sep } from 'path';
+
+export type PathAccessMode = 'read' | 'write';
+
+export interface PathPolicy {
+  // Empty: any path not denied
+  allowedPaths: string[];
+  deniedPaths: string[];
+  // Where `mode: write` paths may point (default: allowedPaths)
+  writablePaths?: string[];
+}
+
+export interface PathCheckOptions {
+  mode?: PathAccessMode;
+  mustExist?: boolean;
+  // Relative inputs are resolved against this directory (default: the wrapper's)
+  cwd?: string;
+}
+
+const hasMagic = (path: string): boolean => /[*?[]/.test(path);
+
+const expandHome = (path: string): string =>
+  path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+
+// Symlinks followed while resolving one path, like the kernel's ELOOP limit
+const MAX_SYMLINKS = 40;
+
+const isSymlink = (path: string): boolean => {
+  try {
+    return lstatSync(path).isSymbolicLink();
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Resolve a path the way the operating system would: segment by segment, following symlinks
+ * of every existing component, so `..` after a symlink leaves the link's target.
+ * Components that do not exist yet are appended as they are; a dangling symlink resolves to its target.
+ */
+export const resolveRealPath = (path: string, cwd: string = process.cwd(), depth = 0): string => {
+  if (depth > MAX_SYMLINKS) {
+    throw new Error(`Too many symlinks while resolving '${path}'`);
+  }
+
+  const absolute = isAbsolute(path) ? path : join(resolve(cwd), path);
+  const { root } = parse(absolute);
+  let current = root;
+
+  absolute.slice(root.length).split(/[\\/]+/).filter(Boolean).forEach(segment => {
+    if (segment === '.') return;
+    if (segment === '..') {
+      current = dirname(current);
+      return;
+    }
+
+    const next = join(current, segment);
+    if (existsSync(next)) {
+      current = realpathSync(next);
+    } else if (isSymlink(next)) {
+      current = resolveRealPath(readlinkSync(next), current, depth + 1);
+    } else {
+      current = next;
+    }
+  });
+
+  return current;
+};
+
+const GLOB_TOKENS: Record<string, string> = { '**/': '(?:.*/)?', '**': '.*', '*': '[^/]*', '?': '[^/]' };
+
+const globToRegExp = (pattern: string): RegExp => new RegExp(
+  '^' + pattern
+    .replace(/[.+^${}()|\\]/g, '\\$&')
+    .replace(/\*\*\/|\*\*|\*|\?/g, match => GLOB_TOKENS[match]) + '$'
+);
+
+/**
+ * Whether `path` is `base` or inside it. Compares whole components, so `/home/user` does not cover `/home/user2`.
+ */
+export const isWithinPath = (path: string, base: string): boolean =>
+  path === base || path.startsWith(base.endsWith(sep) ? base : base + sep);
+
+/**
+ * The directory entries of a path list (globs left out), resolved the way the policy resolves them.
+ */
+export const resolvePolicyDirectories = (entries: string[]): string[] =>
+  [...new Set(entries.map(expandHome).filter(entry => !hasMagic(entry)).map(entry => resolveRealPath(entry)))];
+
+/**
+ * Whether a policy entry covers a resolved path. Entries are directories (covering everything inside)
+ * or globs with `*`, `?` and `**`, which match the path or one of its parent directories.
+ */
+const matchesEntry = (path: string, entry: string): boolean => {
+  const expanded = expandHome(entry);
+  if (!hasMagic(expanded)) {
+    return isWithinPath(path, resolveRealPath(expanded));
+  }
+
+  const pattern = globToRegExp(resolve(expanded));
+  for (let current = path; ; current = dirname(current)) {
+    if (pattern.test(current)) return true;
+    if (dirname(current) === current) return false;
+  }
+};
+
+/**
+ * Resolve a path input and check it against the policy. Returns the resolved absolute path,
+ * which is what the command receives, or throws when the path is not allowed.
+ */
+export const checkPath = (value: string, policy: PathPolicy, options: PathCheckOptions = {}): string => {
+  if (value === '') {
+    throw new Error('Path is empty');
+  }
+  if (value.includes('\0')) {
+    throw new Error('Path contains a null byte');
+  }
+
+  const mode = options.mode || 'read';
+  const resolved = resolveRealPath(value, options.cwd);
+
+  const denied = policy.deniedPaths.find(entry => matchesEntry(resolved, entry));
+  if (denied) {
+    throw new Error(`Path '${resolved}' is denied by '${denied}'`);
+  }
+
+  const allowed = mode === 'write' && policy.writablePaths ? policy.writablePaths : policy.allowedPaths;
+  if (allowed.length > 0 && !allowed.some(entry => matchesEntry(resolved, entry))) {
+    throw new Error(`Path '${resolved}' is not in the ${mode === 'write' ? 'writable' : 'allowed'} paths: ${allowed.join(', ')}`);
+  }
+
+  if (options.mustExist && !existsSync(resolved)) {
+    throw new Error(`Path '${resolved}' does not exist`);
+  }
+
+  return resolved;
+};
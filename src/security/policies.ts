@@ -1,15 +1,27 @@
 import { homedir, tmpdir } from 'os';
+import { PathPolicy } from './paths.js';
+import { SecurityType } from './sanitizer.js';
 
 export type SecurityLevel = 'strict' | 'moderate' | 'permissive';
 
 export interface SecurityPolicy {
   level: SecurityLevel;
   allowedPaths: string[];
+  deniedPaths: string[];
+  // Undefined: same as allowedPaths
+  writablePaths?: string[];
+  // Security type of string properties without their own `security`
+  defaultSecurityType?: SecurityType;
   maxExecutionTimeout: number;
   maxInputLength: number;
+  maxOutputBytes: number;
+  maxStderrBytes: number;
   auditLogging: boolean;
-  failOnWarnings: boolean;
+  // Whether shell commands may use {{{var}}} / {{& var}} outside unsafe tools
+  allowUnescapedTemplates: boolean;
   defaultEscapeMode: 'quote' | 'remove';
+  // Commands may only run inside a sandbox (bubblewrap, firejail or a prefix)
+  requireSandbox: boolean;
 }
 
 const getModerateAllowedPaths = (): string[] => {
@@ -20,31 +32,43 @@ export const SECURITY_POLICIES: Record<SecurityLevel, SecurityPolicy> = {
   strict: {
     level: 'strict',
     allowedPaths: ['./'],
+    deniedPaths: [],
     maxExecutionTimeout: 10,
     maxInputLength: 1000,
+    maxOutputBytes: 100000,
+    maxStderrBytes: 10000,
     auditLogging: true,
-    failOnWarnings: true,
-    defaultEscapeMode: 'remove'
+    allowUnescapedTemplates: false,
+    defaultEscapeMode: 'remove',
+    requireSandbox: false
   },
 
   moderate: {
     level: 'moderate',
     allowedPaths: getModerateAllowedPaths(),
+    deniedPaths: [],
     maxExecutionTimeout: 30,
     maxInputLength: 5000,
+    maxOutputBytes: 1000000,
+    maxStderrBytes: 100000,
     auditLogging: true,
-    failOnWarnings: false,
-    defaultEscapeMode: 'quote'
+    allowUnescapedTemplates: true,
+    defaultEscapeMode: 'quote',
+    requireSandbox: false
   },
 
   permissive: {
     level: 'permissive',
     allowedPaths: [],
+    deniedPaths: [],
     maxExecutionTimeout: 60,
     maxInputLength: 10000,
+    maxOutputBytes: 10000000,
+    maxStderrBytes: 1000000,
     auditLogging: false,
-    failOnWarnings: false,
-    defaultEscapeMode: 'quote'
+    allowUnescapedTemplates: true,
+    defaultEscapeMode: 'quote',
+    requireSandbox: false
   }
 };
 
@@ -70,12 +94,34 @@ export class SecurityPolicyManager {
     return { ...this.policy };
   }
 
+  getPathPolicy(): PathPolicy {
+    return {
+      allowedPaths: this.policy.allowedPaths,
+      deniedPaths: this.policy.deniedPaths,
+      writablePaths: this.policy.writablePaths
+    };
+  }
+
+  getDefaultSecurityType(): SecurityType | undefined {
+    return this.policy.defaultSecurityType;
+  }
+
   getMaxExecutionTimeout(): number {
     return this.policy.maxExecutionTimeout * 1000; // Convert to milliseconds
   }
 
-  shouldFailOnWarnings(): boolean {
-    return this.policy.failOnWarnings;
+  /**
+   * Resolves the effective timeout in milliseconds, capped by maxExecutionTimeout.
+   *
+   * @param requestedMs Requested timeout in milliseconds. Defaults to the policy maximum.
+   */
+  resolveTimeout(requestedMs?: number): number {
+    const maxTimeout = this.getMaxExecutionTimeout();
+    return requestedMs && requestedMs > 0 ? Math.min(requestedMs, maxTimeout) : maxTimeout;
+  }
+
+  allowsUnescapedTemplates(): boolean {
+    return this.policy.allowUnescapedTemplates;
   }
 
   isAuditLoggingEnabled(): boolean {
@@ -86,6 +132,9 @@ export class SecurityPolicyManager {
     return this.policy.defaultEscapeMode;
   }
 
+  requiresSandbox(): boolean {
+    return this.policy.requireSandbox;
+  }
 
   /**
    * Creates a SecurityPolicyManager from a configuration object.
@@ -101,17 +150,35 @@ export class SecurityPolicyManager {
     if (config?.allowedPaths) {
       customPolicy.allowedPaths = config.allowedPaths;
     }
+    if (config?.deniedPaths) {
+      customPolicy.deniedPaths = config.deniedPaths;
+    }
+    if (config?.writablePaths) {
+      customPolicy.writablePaths = config.writablePaths;
+    }
+    if (config?.defaultSecurityType) {
+      customPolicy.defaultSecurityType = config.defaultSecurityType;
+    }
     if (config?.maxExecutionTimeout) {
       customPolicy.maxExecutionTimeout = config.maxExecutionTimeout;
     }
     if (config?.maxInputLength) {
       customPolicy.maxInputLength = config.maxInputLength;
     }
+    if (config?.maxOutputBytes) {
+      customPolicy.maxOutputBytes = config.maxOutputBytes;
+    }
+    if (config?.maxStderrBytes) {
+      customPolicy.maxStderrBytes = config.maxStderrBytes;
+    }
     if (config?.auditLogging !== undefined) {
       customPolicy.auditLogging = config.auditLogging;
     }
-    if (config?.failOnWarnings !== undefined) {
-      customPolicy.failOnWarnings = config.failOnWarnings;
+    if (config?.allowUnescapedTemplates !== undefined) {
+      customPolicy.allowUnescapedTemplates = config.allowUnescapedTemplates;
+    }
+    if (config?.requireSandbox !== undefined) {
+      customPolicy.requireSandbox = config.requireSandbox;
     }
 
     return new SecurityPolicyManager(level, customPolicy);
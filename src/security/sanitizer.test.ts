@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkSecurityType,
+  formatArgvValue,
+  formatShellValue,
+  sanitizeFilePath,
+  shellEscapeQuote,
+  shellEscapeRemove
+} from './sanitizer.js';
+import { ExtendedPropertySchema } from '../types/config.js';
+
+describe('checkSecurityType', () => {
+  it('accepts http(s) URLs and rejects other schemes', () => {
+    expect(checkSecurityType('url', 'https://example.com/a?b=1')).toBeUndefined();
+    expect(checkSecurityType('url', 'file:///etc/passwd')).toContain("URL scheme 'file' is not allowed");
+    expect(checkSecurityType('url', 'example.com')).toContain('Expected an absolute URL');
+  });
+
+  it('uses the property schemes when given', () => {
+    expect(checkSecurityType('url', 'ftp://example.com', { type: 'string', schemes: ['ftp'] })).toBeUndefined();
+    expect(checkSecurityType('url', 'https://example.com', { type: 'string', schemes: ['ftp'] }))
+      .toContain('allowed: ftp');
+  });
+
+  it('checks hostnames label by label', () => {
+    expect(checkSecurityType('hostname', 'api.example.com')).toBeUndefined();
+    expect(checkSecurityType('hostname', 'example.com.')).toBeUndefined();
+    expect(checkSecurityType('hostname', '-bad.example.com')).toContain('Expected a hostname');
+    expect(checkSecurityType('hostname', 'a..b')).toContain('Expected a hostname');
+    expect(checkSecurityType('hostname', 'a b')).toContain('Expected a hostname');
+  });
+
+  it('accepts IPv4 and IPv6 addresses only', () => {
+    expect(checkSecurityType('ip', '10.0.0.1')).toBeUndefined();
+    expect(checkSecurityType('ip', '::1')).toBeUndefined();
+    expect(checkSecurityType('ip', '10.0.0.256')).toContain('Expected an IPv4 or IPv6 address');
+  });
+
+  it('restricts identifiers and rejects option-like values', () => {
+    expect(checkSecurityType('identifier', 'my-service_1.0')).toBeUndefined();
+    expect(checkSecurityType('identifier', 'a;b')).toContain("Expected only letters, digits, '_', '.' and '-'");
+    expect(checkSecurityType('identifier', '--help')).toContain("Must not start with '-'");
+  });
+
+  it('accepts finite numbers', () => {
+    expect(checkSecurityType('number', '-1.5e3')).toBeUndefined();
+    expect(checkSecurityType('number', ' ')).toContain('Expected a number');
+    expect(checkSecurityType('number', 'Infinity')).toContain('Expected a number');
+  });
+
+  it('rejects globs that leave the directory', () => {
+    expect(checkSecurityType('glob', 'src/**/*.ts')).toBeUndefined();
+    expect(checkSecurityType('glob', '../*.ts')).toContain("'..' segments");
+  });
+
+  it('compiles regexes', () => {
+    expect(checkSecurityType('regex', '^a+$')).toBeUndefined();
+    expect(checkSecurityType('regex', '(a')).toContain('Expected a regular expression');
+    expect(checkSecurityType('regex', '-e')).toContain("Must not start with '-'");
+  });
+
+  it('rejects control characters for every checked type', () => {
+    expect(checkSecurityType('identifier', 'a\nb')).toContain('Must not contain control characters');
+    expect(checkSecurityType('url', 'https://example.com/\u0000')).toContain('Must not contain control characters');
+  });
+
+  it('accepts anything as raw', () => {
+    expect(checkSecurityType('raw', '$(id)\n')).toBeUndefined();
+  });
+});
+
+describe('formatArgvValue', () => {
+  it('passes strings through as one word', () => {
+    expect(formatArgvValue('name', "a b; 'c'")).toEqual(["a b; 'c'"]);
+  });
+
+  it('emits flags only when true', () => {
+    const property: ExtendedPropertySchema = { type: 'boolean', flag: '--verbose' };
+    expect(formatArgvValue('verbose', true, property)).toEqual(['--verbose']);
+    expect(formatArgvValue('verbose', false, property)).toEqual([]);
+  });
+
+  it('expands arrays with separate or attached prefixes', () => {
+    expect(formatArgvValue('e', ['a', 'b'], { type: 'array', prefix: '-e' })).toEqual(['-e', 'a', '-e', 'b']);
+    expect(formatArgvValue('x', ['a', 'b'], { type: 'array', prefix: '--exclude=' })).toEqual(['--exclude=a', '--exclude=b']);
+  });
+
+  it('rejects non-numeric values for numeric properties', () => {
+    expect(formatArgvValue('n', '42', { type: 'integer' })).toEqual(['42']);
+    expect(() => formatArgvValue('n', '4; rm', { type: 'integer' })).toThrow('n: Expected a number');
+  });
+
+  it('serializes objects as JSON', () => {
+    expect(formatArgvValue('o', { a: 1 })).toEqual(['{"a":1}']);
+  });
+});
+
+describe('formatShellValue', () => {
+  it('quotes strings in quote mode', () => {
+    expect(formatShellValue('v', "it's; rm -rf /", undefined, shellEscapeQuote)).toBe("'it'\\''s; rm -rf /'");
+  });
+
+  it('removes shell metacharacters in remove mode', () => {
+    expect(formatShellValue('v', 'a; $(id) `b`', undefined, shellEscapeRemove)).toBe("'a id b'");
+  });
+
+  it('escapes every array item but not the prefix', () => {
+    expect(formatShellValue('e', ['a b', "c'd"], { type: 'array', prefix: '-e' }, shellEscapeQuote))
+      .toBe("-e 'a b' -e 'c'\\''d'");
+  });
+
+  it('emits flags and numbers without escaping', () => {
+    expect(formatShellValue('v', true, { type: 'boolean', flag: '--verbose' }, shellEscapeQuote)).toBe('--verbose');
+    expect(formatShellValue('v', false, { type: 'boolean', flag: '--verbose' }, shellEscapeQuote)).toBe('');
+    expect(formatShellValue('n', 3, { type: 'number' }, shellEscapeQuote)).toBe('3');
+    expect(() => formatShellValue('n', '$(id)', { type: 'number' }, shellEscapeQuote)).toThrow('Expected a number');
+  });
+
+  it('escapes objects as JSON', () => {
+    expect(formatShellValue('o', { a: "'" }, undefined, shellEscapeQuote)).toBe(`'{"a":"'\\''"}'`);
+  });
+});
+
+describe('sanitizeFilePath', () => {
+  it('quotes an allowed path and empties a rejected one', () => {
+    expect(sanitizeFilePath('/tmp/a b', ['/tmp'])).toEqual({ value: "'/tmp/a b'", safe: true, warnings: [] });
+    const rejected = sanitizeFilePath('/tmp/../etc/passwd', ['/tmp']);
+    expect(rejected.value).toBe("''");
+    expect(rejected.safe).toBe(false);
+    expect(rejected.warnings[0]).toContain('is not in the allowed paths');
+  });
+});
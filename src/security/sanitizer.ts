@@ -1,7 +1,18 @@
+import { isIP } from 'net';
 import { platform } from 'os';
-import { basename, normalize } from 'path';
+import { ExtendedPropertySchema } from '../types/config.js';
+import { checkPath, PathPolicy } from './paths.js';
 
-export type SecurityType = 'filepath';
+export type SecurityType =
+  | 'filepath'
+  | 'url'
+  | 'hostname'
+  | 'ip'
+  | 'identifier'
+  | 'number'
+  | 'glob'
+  | 'regex'
+  | 'raw';
 
 export interface SanitizationResult {
   value: string;
@@ -9,6 +20,8 @@ export interface SanitizationResult {
   warnings: string[];
 }
 
+const DEFAULT_URL_SCHEMES = ['http', 'https'];
+
 const shellQuote = (value: string): string => {
   if (!value) return "''";
 
@@ -23,116 +36,307 @@ const shellQuote = (value: string): string => {
 };
 
 /**
- * Sanitize file paths for path traversal attacks.
+ * Quote all characters to make them literal (QUOTE mode).
+ */
+export const shellEscapeQuote = (value: any): string => {
+  if (value === null || value === undefined) {
+    return "''";
+  }
+
+  return shellQuote(String(value));
+};
+
+/**
+ * Remove dangerous characters then quote (REMOVE mode).
+ */
+export const shellEscapeRemove = (value: any): string => {
+  if (value === null || value === undefined) {
+    return "''";
+  }
+
+  const sanitized = String(value)
+    .replace(/[;&|`$(){}[\]]/g, '')
+    .replace(/\n/g, ' ')
+    .replace(/\r/g, '');
+
+  return shellQuote(sanitized);
+};
+
+/**
+ * Pass values through unchanged (tools explicitly marked `unsafe`).
+ */
+export const shellEscapeNone = (value: any): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  return String(value);
+};
+
+/**
+ * Get escape function based on mode.
+ */
+export const getEscapeFunction = (escapeMode: 'quote' | 'remove' = 'quote'): (value: any) => string => {
+  return escapeMode === 'remove' ? shellEscapeRemove : shellEscapeQuote;
+};
+
+/**
+ * @deprecated Use `checkPath`. Checks the path against `allowedPaths` (symlinks resolved) and
+ * returns it shell-quoted; a rejected path comes back empty, with the reason as a warning.
  */
 export const sanitizeFilePath = (value: any, allowedPaths: string[] = []): SanitizationResult => {
   if (value === null || value === undefined) {
     return { value: '', safe: true, warnings: [] };
   }
 
-  const warnings: string[] = [];
-  let sanitized = String(value).replace(/[;&|`$(){}[\]]/g, '');
-
   try {
-    sanitized = normalize(sanitized);
+    const resolved = checkPath(String(value), { allowedPaths, deniedPaths: [] });
+    return { value: shellQuote(resolved), safe: true, warnings: [] };
   } catch (error) {
-    warnings.push('Invalid path format detected');
-    sanitized = basename(sanitized);
+    return { value: "''", safe: false, warnings: [error.message] };
   }
+};
+
+const withPrefix = (prefix: string | undefined, word: string): string[] => {
+  if (!prefix) return [word];
+  return prefix.endsWith('=') ? [`${prefix}${word}`] : [prefix, word];
+};
 
-  if (sanitized.includes('..')) {
-    warnings.push('Path traversal attempt detected and blocked');
-    sanitized = basename(sanitized);
+const formatNumber = (name: string, value: any): string => {
+  const number = typeof value === 'number' ? value : Number(value);
+  if (typeof value === 'boolean' || String(value).trim() === '' || !Number.isFinite(number)) {
+    throw new Error(`${name}: Expected a number, got ${JSON.stringify(value)}`);
   }
+  return String(number);
+};
 
-  if (allowedPaths.length > 0) {
-    const isAllowed = allowedPaths.some(allowedPath => {
-      const normalizedAllowed = normalize(allowedPath);
-      const normalizedSanitized = normalize(sanitized);
-      return normalizedSanitized.startsWith(normalizedAllowed) ||
-             normalizedSanitized === normalizedAllowed;
-    });
+const isNumericProperty = (property?: ExtendedPropertySchema): boolean =>
+  property?.type === 'number' || property?.type === 'integer';
 
-    if (!isAllowed) {
-      warnings.push(`Path not in allowed directories: ${allowedPaths.join(', ')}`);
-      sanitized = basename(sanitized);
-    }
+/**
+ * Format one input value as argv words according to its property:
+ * a boolean with `flag` becomes the flag (or nothing), arrays give one word per item (after `prefix`),
+ * numbers are checked to be numeric, and objects become JSON.
+ */
+export const formatArgvValue = (name: string, value: any, property?: ExtendedPropertySchema): string[] => {
+  if (typeof value === 'boolean' && property?.flag) {
+    return value ? [property.flag] : [];
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap(item => withPrefix(
+      property?.prefix,
+      typeof item === 'object' && item !== null ? JSON.stringify(item) : String(item)
+    ));
   }
 
-  sanitized = shellQuote(sanitized);
+  if (typeof value === 'number' || isNumericProperty(property)) {
+    return [formatNumber(name, value)];
+  }
 
-  return {
-    value: sanitized,
-    safe: warnings.length === 0,
-    warnings
-  };
+  return [typeof value === 'object' ? JSON.stringify(value) : String(value)];
 };
 
 /**
- * Quote all characters to make them literal (QUOTE mode).
+ * Format one input value for a shell command: like `formatArgvValue`, but every word
+ * from the input is passed through `escape`. Flags, prefixes and numbers are emitted as-is.
  */
-export const shellEscapeQuote = (value: any): string => {
-  if (value === null || value === undefined) {
-    return "''";
+export const formatShellValue = (
+  name: string,
+  value: any,
+  property: ExtendedPropertySchema | undefined,
+  escape: (value: any) => string
+): string => {
+  if (typeof value === 'boolean' && property?.flag) {
+    return value ? property.flag : '';
   }
 
-  return shellQuote(String(value));
+  if (Array.isArray(value)) {
+    return value
+      .flatMap(item => withPrefix(property?.prefix, escape(typeof item === 'object' && item !== null ? JSON.stringify(item) : item)))
+      .join(' ');
+  }
+
+  if (typeof value === 'number' || isNumericProperty(property)) {
+    return formatNumber(name, value);
+  }
+
+  return escape(typeof value === 'object' ? JSON.stringify(value) : value);
 };
 
 /**
- * Remove dangerous characters then quote (REMOVE mode).
+ * Reject inputs longer than the policy's maxInputLength.
  */
-export const shellEscapeRemove = (value: any): string => {
-  if (value === null || value === undefined) {
-    return "''";
-  }
+export const validateInputLength = (context: Record<string, any>, maxInputLength: number): string[] => {
+  const errors: string[] = [];
 
-  const sanitized = String(value)
-    .replace(/[;&|`$(){}[\]]/g, '')
-    .replace(/\n/g, ' ')
-    .replace(/\r/g, '');
+  for (const [key, value] of Object.entries(context)) {
+    if (value === null || value === undefined) continue;
 
-  return shellQuote(sanitized);
+    const length = typeof value === 'string' ? value.length : JSON.stringify(value).length;
+    if (length > maxInputLength) {
+      errors.push(`${key}: Input length ${length} exceeds maximum of ${maxInputLength}`);
+    }
+  }
+
+  return errors;
 };
 
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/;
+const HOSTNAME_LABEL = /^(?!-)[A-Za-z0-9-]{1,63}(?<!-)$/;
+
+const describe = (value: string): string => JSON.stringify(value);
+
+// Values starting with '-' would be read as options by most commands
+const checkNotOption = (value: string): string | undefined =>
+  value.startsWith('-') ? `Must not start with '-', got ${describe(value)}` : undefined;
+
 /**
- * Get escape function based on mode.
+ * Check a value against a security type (other than `filepath`, which needs the path policy).
+ *
+ * @returns The reason the value is rejected, or undefined when it is accepted
  */
-export const getEscapeFunction = (escapeMode: 'quote' | 'remove' = 'quote'): (value: any) => string => {
-  return escapeMode === 'remove' ? shellEscapeRemove : shellEscapeQuote;
+export const checkSecurityType = (
+  type: Exclude<SecurityType, 'filepath'>,
+  value: string,
+  property?: ExtendedPropertySchema
+): string | undefined => {
+  if (type === 'raw') {
+    return undefined;
+  }
+  if (CONTROL_CHARACTERS.test(value)) {
+    return `Must not contain control characters, got ${describe(value)}`;
+  }
+
+  switch (type) {
+    case 'url': {
+      const schemes = property?.schemes || DEFAULT_URL_SCHEMES;
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch {
+        return `Expected an absolute URL, got ${describe(value)}`;
+      }
+      const scheme = url.protocol.slice(0, -1);
+      if (!schemes.includes(scheme)) {
+        return `URL scheme '${scheme}' is not allowed (allowed: ${schemes.join(', ')})`;
+      }
+      if (/\s/.test(value)) {
+        return `URL must not contain whitespace, got ${describe(value)}`;
+      }
+      return undefined;
+    }
+
+    case 'hostname': {
+      const labels = value.replace(/\.$/, '').split('.');
+      if (value.length > 253 || !labels.every(label => HOSTNAME_LABEL.test(label))) {
+        return `Expected a hostname (letters, digits and '-' in dot-separated labels), got ${describe(value)}`;
+      }
+      return undefined;
+    }
+
+    case 'ip':
+      return isIP(value) === 0 ? `Expected an IPv4 or IPv6 address, got ${describe(value)}` : undefined;
+
+    case 'identifier':
+      if (!/^[A-Za-z0-9_.-]+$/.test(value)) {
+        return `Expected only letters, digits, '_', '.' and '-', got ${describe(value)}`;
+      }
+      return checkNotOption(value);
+
+    case 'number':
+      return value.trim() === '' || !Number.isFinite(Number(value))
+        ? `Expected a number, got ${describe(value)}`
+        : undefined;
+
+    case 'glob':
+      if (value.split(/[\\/]/).includes('..')) {
+        return `Glob must not contain '..' segments, got ${describe(value)}`;
+      }
+      return checkNotOption(value);
+
+    case 'regex':
+      try {
+        new RegExp(value);
+      } catch (error) {
+        return `Expected a regular expression: ${error.message}`;
+      }
+      return checkNotOption(value);
+  }
 };
 
 /**
- * Pre-process context to sanitize filepath properties.
+ * The security type of a property: its own `security`, or the policy's default type for strings.
+ */
+export const getSecurityType = (
+  property: ExtendedPropertySchema | undefined,
+  defaultType?: SecurityType
+): SecurityType | undefined =>
+  property?.security || (property?.type === 'string' ? defaultType : undefined);
+
+export interface PreprocessOptions {
+  pathPolicy: PathPolicy;
+  // Relative filepath inputs are resolved against this directory
+  cwd?: string;
+  // Type for string properties without `security`
+  defaultType?: SecurityType;
+  // Whether `raw` values are accepted (false under allowUnescapedTemplates: false)
+  allowRaw?: boolean;
+}
+
+/**
+ * Pre-process context to enforce the security type of each property.
+ * Filepath values are replaced by their resolved absolute paths; any rejected value rejects the call.
+ * Values are left unquoted; shell escaping happens once, at render time.
  */
 export const preprocessContext = (
   context: Record<string, any>,
   inputSchema: any,
-  allowedPaths: string[] = []
-): {
-  sanitizedContext: Record<string, any>;
-  warnings: string[];
-} => {
+  options: PreprocessOptions
+): { sanitizedContext: Record<string, any> } => {
   const sanitizedContext: Record<string, any> = { ...context };
-  const warnings: string[] = [];
+  const errors: string[] = [];
 
   if (inputSchema?.properties) {
-    for (const [key, propertySchema] of Object.entries(inputSchema.properties as Record<string, any>)) {
-      if (context[key] === undefined) continue;
+    for (const [key, propertySchema] of Object.entries(inputSchema.properties as Record<string, ExtendedPropertySchema>)) {
+      if (context[key] === undefined || context[key] === null) continue;
+
+      const type = getSecurityType(propertySchema, options.defaultType);
+      if (!type) continue;
 
-      if (propertySchema.security === 'filepath') {
-        const result = sanitizeFilePath(context[key], allowedPaths);
-        sanitizedContext[key] = result.value;
+      if (type === 'raw') {
+        if (!options.allowRaw) errors.push(`${key}: security: raw is not allowed by the security policy`);
+        continue;
+      }
 
-        if (result.warnings.length > 0) {
-          warnings.push(`${key}: ${result.warnings.join(', ')}`);
+      const check = (value: any): any => {
+        if (typeof value === 'object' && value !== null) {
+          errors.push(`${key}: security: ${type} expects a string, got an object`);
+          return value;
         }
-        if (!result.safe) {
-          warnings.push(`${key}: File path was sanitized for safety`);
+        try {
+          if (type === 'filepath') {
+            return checkPath(String(value), options.pathPolicy, {
+              mode: propertySchema.mode,
+              mustExist: propertySchema.mustExist,
+              cwd: options.cwd
+            });
+          }
+          const reason = checkSecurityType(type, String(value), propertySchema);
+          if (reason) errors.push(`${key}: ${reason}`);
+          return value;
+        } catch (error) {
+          errors.push(`${key}: ${error.message}`);
+          return undefined;
         }
-      }
+      };
+      sanitizedContext[key] = Array.isArray(context[key]) ? context[key].map(check) : check(context[key]);
     }
   }
 
-  return { sanitizedContext, warnings };
+  if (errors.length > 0) {
+    throw new Error(`Input validation failed: ${errors.join('; ')}`);
+  }
+
+  return { sanitizedContext };
 };
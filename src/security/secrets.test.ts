@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parseEnvFile, redactSecrets, registerSecret, renderWithSecrets, resolveSecretReferences } from './secrets.js';
+import { ConfigValidationError } from '../types/config.js';
+
+describe('parseEnvFile', () => {
+  it('reads KEY=value lines with comments, export and quotes', () => {
+    expect(parseEnvFile('# comment\nexport TOKEN="a b"\r\nNAME = \'x\'\nEMPTY=\nnot a line\n')).toEqual({
+      TOKEN: 'a b',
+      NAME: 'x',
+      EMPTY: ''
+    });
+  });
+});
+
+describe('secrets', () => {
+  it('redacts registered values, longest first', () => {
+    registerSecret('hunter2');
+    registerSecret('hunter2-extended');
+    registerSecret('abc');
+
+    expect(redactSecrets('pw=hunter2-extended and hunter2, abc')).toBe('pw=*** and ***, abc');
+  });
+
+  it('substitutes references and reports unset variables', () => {
+    const errors: ConfigValidationError[] = [];
+    const value = resolveSecretReferences('Bearer ${API_TOKEN_A} ${MISSING_VAR}', { API_TOKEN_A: 's3cr3t-token' }, 'env.AUTH', errors);
+
+    expect(value).toBe('Bearer s3cr3t-token ${MISSING_VAR}');
+    expect(errors).toEqual([{ field: 'env.AUTH', message: 'Environment variable MISSING_VAR is not set', value: '${MISSING_VAR}' }]);
+    expect(redactSecrets('token s3cr3t-token')).toBe('token ***');
+  });
+
+  it('renders templates without parsing secrets as Mustache', () => {
+    resolveSecretReferences('${TEMPLATE_SECRET}', { TEMPLATE_SECRET: '{{user}}-key' }, 'env.KEY', []);
+    const render = (template: string) => template.replace('{{user}}', 'alice');
+
+    expect(renderWithSecrets('${TEMPLATE_SECRET}/{{user}}', render)).toBe('{{user}}-key/alice');
+  });
+
+  it('does not let input values reference a secret', () => {
+    resolveSecretReferences('${INPUT_SECRET}', { INPUT_SECRET: 'input-secret' }, 'env.KEY', []);
+    const render = (template: string) => template.replace('{{value}}', '${INPUT_SECRET}');
+
+    expect(renderWithSecrets('{{value}}', render)).toBe('${INPUT_SECRET}');
+  });
+
+  it('leaves unresolved references as they are', () => {
+    expect(renderWithSecrets('${NEVER_RESOLVED}', template => template)).toBe('${NEVER_RESOLVED}');
+  });
+});
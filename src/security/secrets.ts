@@ -0,0 +1,107 @@
+import { randomBytes } from 'crypto';
+import { ConfigValidationError } from '../types/config.js';
+
+const REDACTED = '***';
+
+// Shorter values would redact ordinary words and numbers from logs
+const MIN_SECRET_LENGTH = 4;
+
+const secrets = new Set<string>();
+
+const SECRET_REFERENCE = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+// Values of the references resolved so far, substituted into env values after rendering
+const referenceValues = new Map<string, string>();
+
+// Stands in for a reference while a template is rendered; unguessable, so input cannot forge it
+const PLACEHOLDER = `\0${randomBytes(8).toString('hex')}:`;
+const PLACEHOLDER_PATTERN = new RegExp(`${PLACEHOLDER}(\\d+)\0`, 'g');
+
+/**
+ * Remember a value so it is redacted from logs and audit output.
+ */
+export const registerSecret = (value: string): void => {
+  if (typeof value === 'string' && value.length >= MIN_SECRET_LENGTH) {
+    secrets.add(value);
+  }
+};
+
+/**
+ * Replace every registered secret in the text with `***`.
+ */
+export const redactSecrets = (text: string): string => {
+  if (secrets.size === 0 || typeof text !== 'string') {
+    return text;
+  }
+
+  return [...secrets]
+    .sort((a, b) => b.length - a.length)
+    .reduce((redacted, secret) => redacted.split(secret).join(REDACTED), text);
+};
+
+/**
+ * Parse a dotenv-style file: `KEY=value` lines, `#` comments, optional `export` and quotes.
+ */
+export const parseEnvFile = (content: string): Record<string, string> => {
+  const vars: Record<string, string> = {};
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) return;
+
+    let value = match[2];
+    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith("'") && value.endsWith("'"))) {
+      value = value.slice(1, -1);
+    }
+    vars[match[1]] = value;
+  });
+
+  return vars;
+};
+
+/**
+ * Substitute `${VAR}` references and register the substituted values as secrets.
+ * Unset variables are reported as validation errors.
+ */
+export const resolveSecretReferences = (
+  value: string,
+  vars: Record<string, string | undefined>,
+  field: string,
+  errors: ConfigValidationError[]
+): string => {
+  return value.replace(SECRET_REFERENCE, (reference, name: string) => {
+    const resolved = vars[name];
+    if (resolved === undefined) {
+      errors.push({ field, message: `Environment variable ${name} is not set`, value: reference });
+      return reference;
+    }
+
+    registerSecret(resolved);
+    referenceValues.set(name, resolved);
+    return resolved;
+  });
+};
+
+/**
+ * Render a template that may hold `${VAR}` references, substituting the resolved secrets afterwards.
+ * Secret values are never parsed as Mustache, and input values cannot reference a secret.
+ * References that were never resolved are left as they are.
+ */
+export const renderWithSecrets = (template: string, render: (template: string) => string): string => {
+  const values: string[] = [];
+  const masked = template.replace(SECRET_REFERENCE, (reference, name: string) => {
+    const value = referenceValues.get(name);
+    if (value === undefined) {
+      return reference;
+    }
+    values.push(value);
+    return `${PLACEHOLDER}${values.length - 1}\0`;
+  });
+
+  return values.length === 0
+    ? render(template)
+    : render(masked).replace(PLACEHOLDER_PATTERN, (_, index: string) => values[Number(index)]);
+};
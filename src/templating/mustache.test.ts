@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { renderSecureArgs, SecureTemplateContext } from './mustache.js';
+import { SecurityPolicyManager } from '../security/policies.js';
+
+const secureContext = (): SecureTemplateContext => ({
+  policyManager: new SecurityPolicyManager(),
+  escapeMode: 'quote'
+});
+
+const schema = {
+  type: 'object',
+  properties: {
+    items: { type: 'array', items: { type: 'string' }, prefix: '-e' },
+    verbose: { type: 'boolean', flag: '--verbose' }
+  }
+};
+
+describe('renderSecureArgs', () => {
+  it('expands a template that is one variable into separate words', () => {
+    expect(renderSecureArgs(['{{items}}', '{{verbose}}'], { items: ['a', 'b'], verbose: false }, secureContext(), schema))
+      .toEqual(['-e', 'a', '-e', 'b']);
+  });
+
+  it('joins list items inside a longer argument without the prefix', () => {
+    expect(renderSecureArgs(['x{{items}}', '--ids={{items}}'], { items: ['a', 'b'] }, secureContext(), schema))
+      .toEqual(['xa,b', '--ids=a,b']);
+  });
+
+  it('drops a one-variable argument whose value is missing', () => {
+    expect(renderSecureArgs(['run', '{{items}}'], {}, secureContext(), schema)).toEqual(['run']);
+  });
+});
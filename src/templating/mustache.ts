@@ -1,15 +1,27 @@
 import Mustache from 'mustache';
-import { TemplateContext } from '../types/config.js';
-import { preprocessContext, getEscapeFunction } from '../security/sanitizer.js';
+import { ExtendedPropertySchema, TemplateContext } from '../types/config.js';
+import {
+  preprocessContext,
+  getEscapeFunction,
+  shellEscapeQuote,
+  getSecurityType,
+  SecurityType,
+  shellEscapeNone,
+  validateInputLength,
+  formatArgvValue,
+  formatShellValue
+} from '../security/sanitizer.js';
 import { SecurityPolicyManager } from '../security/policies.js';
 import { createContextLogger } from '../utils/logger.js';
 
 const logger = createContextLogger('template');
 
 export interface SecureTemplateContext {
-  allowedPaths: string[];
   policyManager: SecurityPolicyManager;
+  // Relative filepath inputs are resolved against the tool's working directory
+  cwd?: string;
   escapeMode: 'quote' | 'remove';
+  unsafe?: boolean;
 }
 
 export const renderTemplate = (template: string, context: TemplateContext): string => {
@@ -20,6 +32,84 @@ export const renderTemplate = (template: string, context: TemplateContext): stri
   }
 };
 
+type ValueFormatter = (name: string, value: any, property?: ExtendedPropertySchema) => string;
+
+/**
+ * Writer that formats each `{{name}}` by its input property (flags, lists, numbers, JSON).
+ * Properties only apply at the top level: inside list or object sections, names refer to the current item.
+ */
+class TypedWriter extends Mustache.Writer {
+  constructor(
+    private properties: Record<string, ExtendedPropertySchema>,
+    private formatValue: ValueFormatter
+  ) {
+    super();
+  }
+
+  escapedValue(token: string[], context: Mustache.Context): string {
+    const value = context.lookup(token[1]);
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    return this.formatValue(token[1], value, context.parent ? undefined : this.properties[token[1]]);
+  }
+}
+
+const renderTyped = (
+  template: string,
+  context: TemplateContext,
+  inputSchema: any,
+  formatValue: ValueFormatter
+): string => {
+  return new TypedWriter(inputSchema?.properties || {}, formatValue).render(template, context);
+};
+
+const prepareSecureContext = (
+  context: TemplateContext,
+  secureContext: SecureTemplateContext,
+  inputSchema: any
+): TemplateContext => {
+  const lengthErrors = validateInputLength(context, secureContext.policyManager.getPolicy().maxInputLength);
+  if (lengthErrors.length > 0) {
+    throw new Error(`Input validation failed: ${lengthErrors.join('; ')}`);
+  }
+
+  const { sanitizedContext } = preprocessContext(context, inputSchema, {
+    pathPolicy: secureContext.policyManager.getPathPolicy(),
+    cwd: secureContext.cwd,
+    defaultType: secureContext.policyManager.getDefaultSecurityType(),
+    allowRaw: secureContext.policyManager.allowsUnescapedTemplates()
+  });
+
+  return sanitizedContext;
+};
+
+/**
+ * Escaping for one value: checked paths are always quoted, since removing characters would point them
+ * somewhere else, and `raw` values are inserted as-is.
+ */
+const selectEscape = (
+  type: SecurityType | undefined,
+  escapeFunction: (value: any) => string,
+  unsafe?: boolean
+): ((value: any) => string) => {
+  if (unsafe || type === 'raw') return shellEscapeNone;
+  return type === 'filepath' ? shellEscapeQuote : escapeFunction;
+};
+
+/**
+ * Render a template without any escaping, for values never parsed by a shell
+ * (environment variables, stdin).
+ */
+export const renderDataTemplate = (template: string, context: TemplateContext): string => {
+  try {
+    return Mustache.render(template, context, {}, { escape: shellEscapeNone });
+  } catch (error) {
+    throw new Error(`Template rendering failed: ${error.message}`);
+  }
+};
+
 export const renderSecureTemplate = (
   template: string,
   context: TemplateContext,
@@ -27,26 +117,66 @@ export const renderSecureTemplate = (
   inputSchema: any
 ): string => {
   try {
-    const { sanitizedContext, warnings } = preprocessContext(context, inputSchema, secureContext.allowedPaths);
+    const sanitizedContext = prepareSecureContext(context, secureContext, inputSchema);
 
-    if (warnings.length > 0) {
-      logger.warn(`Template rendering warnings: ${warnings.join('; ')}`);
-    }
+    const escapeFunction = secureContext.unsafe ? shellEscapeNone : getEscapeFunction(secureContext.escapeMode);
+    const defaultType = secureContext.policyManager.getDefaultSecurityType();
+    const rendered = renderTyped(template, sanitizedContext, inputSchema, (name, value, property) =>
+      formatShellValue(name, value, property, selectEscape(getSecurityType(property, defaultType), escapeFunction, secureContext.unsafe))
+    );
 
-    if (warnings.length > 0 && secureContext.policyManager.shouldFailOnWarnings()) {
-      throw new Error(`Template validation warnings treated as errors: ${warnings.join('; ')}`);
-    }
+    logger.debug(`Securely rendered template: ${rendered}`);
+    return rendered;
+
+  } catch (error) {
+    logger.error(`Secure template rendering failed: ${error.message}`);
+    throw error;
+  }
+};
+
+/**
+ * Render argv templates for direct (shell-less) execution.
+ * Each template yields one argument, except a template that is exactly one variable:
+ * it yields the words from `formatArgvValue` (so arrays expand and false flags vanish),
+ * and nothing when the value is missing. Inside longer arguments, list items are joined with commas, without `prefix`.
+ */
+export const renderSecureArgs = (
+  templates: string[],
+  context: TemplateContext,
+  secureContext: SecureTemplateContext,
+  inputSchema: any
+): string[] => {
+  try {
+    const sanitizedContext = prepareSecureContext(context, secureContext, inputSchema);
+    const rendered: string[] = [];
 
-    const escapeFunction = getEscapeFunction(secureContext.escapeMode);
-    const rendered = Mustache.render(template, sanitizedContext, {}, {
-      escape: escapeFunction
+    templates.forEach(template => {
+      const tokens = Mustache.parse(template);
+
+      if (tokens.length === 1 && (tokens[0][0] === 'name' || tokens[0][0] === '&')) {
+        const name = tokens[0][1];
+        const value = new Mustache.Context(sanitizedContext).lookup(name);
+
+        if (value === null || value === undefined) return;
+        rendered.push(...formatArgvValue(name, value, inputSchema?.properties?.[name]));
+        return;
+      }
+
+      // `prefix` only applies to separate arguments, so it is left out here
+      const arg = renderTyped(template, sanitizedContext, inputSchema, (name, value, property) =>
+        formatArgvValue(name, value, property && { ...property, prefix: undefined }).join(',')
+      );
+      const hasSection = tokens.some(token => token[0] === '#' || token[0] === '^');
+      if (arg === '' && hasSection) return;
+
+      rendered.push(arg);
     });
 
-    logger.debug(`Securely rendered template: ${rendered}`);
+    logger.debug(`Securely rendered arguments: ${JSON.stringify(rendered)}`);
     return rendered;
 
   } catch (error) {
-    logger.error(`Secure template rendering failed: ${error.message}`);
+    logger.error(`Secure argument rendering failed: ${error.message}`);
     throw error;
   }
 };
@@ -63,22 +193,38 @@ export const validateTemplate = (template: string): string[] => {
   return errors;
 };
 
-export const extractTemplateVariables = (template: string): string[] => {
-  const parsed = Mustache.parse(template);
-  const variables: string[] = [];
+export interface TemplateVariable {
+  name: string;
+  // {{{name}}} or {{& name}}: inserted without the escape function
+  unescaped: boolean;
+  // {{#name}} or {{^name}}
+  section: boolean;
+  // Names of the enclosing sections, outermost first
+  sections: string[];
+}
 
-  const extractFromTokens = (tokens: any[]): void => {
+/**
+ * List every variable reference in a template, in order, including sections and unescaped values.
+ */
+export const analyzeTemplateVariables = (template: string): TemplateVariable[] => {
+  const variables: TemplateVariable[] = [];
+
+  const collect = (tokens: any[], sections: string[]): void => {
     tokens.forEach(token => {
-      if (token[0] === 'name') {
-        if (!variables.includes(token[1])) {
-          variables.push(token[1]);
-        }
-      } else if (token[4]) {
-        extractFromTokens(token[4]);
+      const [type, name] = token;
+      if (type === 'name' || type === '&') {
+        variables.push({ name, unescaped: type === '&', section: false, sections });
+      } else if (type === '#' || type === '^') {
+        variables.push({ name, unescaped: false, section: true, sections });
+        collect(token[4] || [], [...sections, name]);
       }
     });
   };
 
-  extractFromTokens(parsed);
+  collect(Mustache.parse(template), []);
   return variables;
-};
\ No newline at end of file
+};
+
+export const extractTemplateVariables = (template: string): string[] => {
+  return [...new Set(analyzeTemplateVariables(template).map(variable => variable.name))];
+};
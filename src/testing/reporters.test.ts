@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatJUnit, formatTap } from './reporters.js';
+import { ToolTestResult } from './runner.js';
+
+const results: ToolTestResult[] = [
+  { tool: 'greet', name: 'renders #1', passed: true, failures: [], durationMs: 5 },
+  { tool: 'greet', name: 'runs', passed: false, failures: ['Expected exit code 1, got 0', 'Expected "x" & <y>'], durationMs: 1500 },
+  { tool: 'list', name: 'case 1', passed: true, failures: [], durationMs: 0 }
+];
+
+describe('formatTap', () => {
+  it('prints one line per case with failures in a YAML block', () => {
+    expect(formatTap(results)).toBe([
+      'TAP version 13',
+      '1..3',
+      'ok 1 - greet: renders \\#1',
+      'not ok 2 - greet: runs',
+      '  ---',
+      '  failures:',
+      '    - "Expected exit code 1, got 0"',
+      '    - "Expected \\"x\\" & <y>"',
+      '  ...',
+      'ok 3 - list: case 1'
+    ].join('\n'));
+  });
+});
+
+describe('formatJUnit', () => {
+  it('groups cases by tool and escapes failure text', () => {
+    expect(formatJUnit(results)).toBe([
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="mcp-wrapper" tests="3" failures="1" time="1.505">',
+      '  <testsuite name="greet" tests="2" failures="1" time="1.505">',
+      '    <testcase name="renders #1" classname="greet" time="0.005"/>',
+      '    <testcase name="runs" classname="greet" time="1.500">',
+      '      <failure message="Expected exit code 1, got 0">Expected exit code 1, got 0\nExpected &quot;x&quot; &amp; &lt;y&gt;</failure>',
+      '    </testcase>',
+      '  </testsuite>',
+      '  <testsuite name="list" tests="1" failures="0" time="0.000">',
+      '    <testcase name="case 1" classname="list" time="0.000"/>',
+      '  </testsuite>',
+      '</testsuites>'
+    ].join('\n'));
+  });
+});
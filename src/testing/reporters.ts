@@ -0,0 +1,73 @@
+import { ToolTestResult } from './runner.js';
+
+export type TestReportFormat = 'tap' | 'junit';
+
+/**
+ * TAP version 13: one line per case, with failures in a YAML block.
+ */
+export const formatTap = (results: ToolTestResult[]): string => {
+  const lines = ['TAP version 13', `1..${results.length}`];
+
+  results.forEach((result, index) => {
+    const description = `${result.tool}: ${result.name}`.replace(/#/g, '\\#');
+    lines.push(`${result.passed ? 'ok' : 'not ok'} ${index + 1} - ${description}`);
+
+    if (!result.passed) {
+      lines.push('  ---', '  failures:');
+      result.failures.forEach(failure => lines.push(`    - ${JSON.stringify(failure)}`));
+      lines.push('  ...');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const seconds = (durationMs: number): string => (durationMs / 1000).toFixed(3);
+
+/**
+ * JUnit XML with one test suite per tool.
+ */
+export const formatJUnit = (results: ToolTestResult[]): string => {
+  const suites = new Map<string, ToolTestResult[]>();
+  results.forEach(result => suites.set(result.tool, [...(suites.get(result.tool) || []), result]));
+
+  const failures = results.filter(result => !result.passed).length;
+  const totalMs = results.reduce((sum, result) => sum + result.durationMs, 0);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="mcp-wrapper" tests="${results.length}" failures="${failures}" time="${seconds(totalMs)}">`
+  ];
+
+  suites.forEach((cases, tool) => {
+    const suiteFailures = cases.filter(result => !result.passed).length;
+    const suiteMs = cases.reduce((sum, result) => sum + result.durationMs, 0);
+    lines.push(`  <testsuite name="${escapeXml(tool)}" tests="${cases.length}" failures="${suiteFailures}" time="${seconds(suiteMs)}">`);
+
+    cases.forEach(result => {
+      const attributes = `name="${escapeXml(result.name)}" classname="${escapeXml(tool)}" time="${seconds(result.durationMs)}"`;
+      if (result.passed) {
+        lines.push(`    <testcase ${attributes}/>`);
+        return;
+      }
+
+      lines.push(
+        `    <testcase ${attributes}>`,
+        `      <failure message="${escapeXml(result.failures[0])}">${escapeXml(result.failures.join('\n'))}</failure>`,
+        '    </testcase>'
+      );
+    });
+
+    lines.push('  </testsuite>');
+  });
+
+  lines.push('</testsuites>');
+  return lines.join('\n');
+};
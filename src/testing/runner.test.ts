@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { runToolTests } from './runner.js';
+import { MCPConfig, ToolDefinition } from '../types/config.js';
+
+const greet: ToolDefinition = {
+  description: 'Greet',
+  input: { type: 'object', properties: { name: { type: 'string', security: 'identifier' } }, required: ['name'] },
+  cmd: 'echo hello {{name}}'
+};
+
+const config = (tests: ToolDefinition['tests'], tool: ToolDefinition = greet): MCPConfig => ({
+  tools: { greet: { ...tool, tests } }
+});
+
+describe('runToolTests', () => {
+  it('checks the rendered command without running it', async () => {
+    const [result] = await runToolTests(config([
+      { name: 'renders', input: { name: 'bob' }, expect: { command: "echo hello 'bob'", commandMatches: '^echo' } }
+    ]));
+
+    expect(result).toMatchObject({ tool: 'greet', name: 'renders', passed: true, failures: [] });
+  });
+
+  it('runs the command for exit code and stdout expectations', async () => {
+    const [passing, failing] = await runToolTests(config([
+      { input: { name: 'bob' }, expect: { exitCode: 0, stdoutContains: 'hello bob', stdoutMatches: 'bob\\n$' } },
+      { input: { name: 'bob' }, expect: { exitCode: 1, stdoutContains: 'alice' } }
+    ]));
+
+    expect(passing.passed).toBe(true);
+    expect(failing).toMatchObject({
+      name: 'case 2',
+      passed: false,
+      failures: ['Expected exit code 1, got 0', `Expected stdout to contain 'alice', got: "hello bob\\n"`]
+    });
+  });
+
+  it('expects rejected calls to fail with the given error', async () => {
+    const results = await runToolTests(config([
+      { name: 'missing', input: {}, expect: { error: 'Required property is missing' } },
+      { name: 'bad type', input: { name: 'a;b' }, expect: { error: 'Expected only letters' } },
+      { name: 'accepted', input: { name: 'bob' }, expect: { error: 'anything' } },
+      { name: 'rejected', input: { name: 'a;b' }, expect: { command: 'echo' } }
+    ]));
+
+    expect(results.map(result => result.passed)).toEqual([true, true, false, false]);
+    expect(results[2].failures).toEqual(["Expected an error containing 'anything', but the call was accepted"]);
+    expect(results[3].failures[0]).toMatch(/^Call was rejected: .*Expected only letters/);
+  });
+
+  it('compares argv commands item by item', async () => {
+    const argv: ToolDefinition = { ...greet, cmd: undefined, args: ['echo', 'hello', '{{name}}'] };
+    const [result] = await runToolTests(config([
+      { input: { name: 'bob' }, expect: { command: ['echo', 'hello', 'bob'] } }
+    ], argv));
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('only runs the tests of the selected tool', async () => {
+    const results = await runToolTests({
+      tools: {
+        a: { ...greet, tests: [{ input: { name: 'a' }, expect: { commandMatches: 'a' } }] },
+        b: { ...greet, tests: [{ input: { name: 'b' }, expect: { commandMatches: 'b' } }] }
+      }
+    }, { tool: 'b' });
+
+    expect(results.map(result => result.tool)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,149 @@
+import { CommandResult, MCPConfig, ToolDefinition, ToolTestCase, ToolTestExpectations } from '../types/config.js';
+import { createSecureToolExecutor, renderToolCommand } from '../mcp/tools.js';
+import { resolveSandbox } from '../mcp/sandbox.js';
+import { SecurityPolicyManager } from '../security/policies.js';
+import { validateToolInput, formatInputValidationErrors } from '../validation/input.js';
+
+export interface ToolTestResult {
+  tool: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  durationMs: number;
+}
+
+export interface ToolTestOptions {
+  // Only run the tests of this tool (config key)
+  tool?: string;
+  // Default timeout in seconds for executed cases
+  timeout?: number;
+}
+
+interface CallOutcome {
+  renderedCommand?: string | string[];
+  // Input validation or rendering error
+  error?: string;
+  result?: CommandResult;
+}
+
+const needsExecution = (expect: ToolTestExpectations): boolean =>
+  expect.exitCode !== undefined || expect.stdoutContains !== undefined || expect.stdoutMatches !== undefined;
+
+const commandText = (command: string | string[]): string =>
+  Array.isArray(command) ? command.join(' ') : command;
+
+/**
+ * Validate the case's input and render the command like a client call would.
+ * The command only runs when the case has exit code or stdout expectations.
+ */
+const runCall = async (
+  definition: ToolDefinition,
+  testCase: ToolTestCase,
+  policyManager: SecurityPolicyManager,
+  timeout?: number
+): Promise<CallOutcome> => {
+  const { value: input, errors } = validateToolInput(testCase.input, definition.input);
+  if (errors.length > 0) {
+    return { error: `Invalid arguments:\n${formatInputValidationErrors(errors)}` };
+  }
+
+  if (!needsExecution(testCase.expect)) {
+    try {
+      return { renderedCommand: renderToolCommand(definition, input, policyManager).renderedCommand };
+    } catch (error) {
+      return { error: error.message };
+    }
+  }
+
+  const result = await createSecureToolExecutor(definition, policyManager, timeout)(input);
+  // The executor reports rendering failures as results without a command
+  if (result.renderedCommand === undefined) {
+    return { error: result.stderr, result };
+  }
+  return { renderedCommand: result.renderedCommand, result };
+};
+
+const checkExpectations = (expect: ToolTestExpectations, outcome: CallOutcome): string[] => {
+  const failures: string[] = [];
+
+  if (expect.error !== undefined) {
+    if (outcome.error === undefined) {
+      failures.push(`Expected an error containing '${expect.error}', but the call was accepted`);
+    } else if (!outcome.error.includes(expect.error)) {
+      failures.push(`Expected an error containing '${expect.error}', got: ${outcome.error}`);
+    }
+    return failures;
+  }
+
+  if (outcome.error !== undefined) {
+    return [`Call was rejected: ${outcome.error}`];
+  }
+
+  const rendered = outcome.renderedCommand;
+  if (expect.command !== undefined) {
+    const equal = Array.isArray(expect.command)
+      ? JSON.stringify(expect.command) === JSON.stringify(rendered)
+      : expect.command === commandText(rendered);
+    if (!equal) {
+      failures.push(`Expected command ${JSON.stringify(expect.command)}, got ${JSON.stringify(rendered)}`);
+    }
+  }
+
+  if (expect.commandMatches !== undefined && !new RegExp(expect.commandMatches).test(commandText(rendered))) {
+    failures.push(`Command ${JSON.stringify(commandText(rendered))} does not match /${expect.commandMatches}/`);
+  }
+
+  const result = outcome.result;
+  if (!result) {
+    return failures;
+  }
+
+  if (expect.exitCode !== undefined && result.exitCode !== expect.exitCode) {
+    failures.push(`Expected exit code ${expect.exitCode}, got ${result.exitCode}` + (result.stderr ? `: ${result.stderr.trim()}` : ''));
+  }
+
+  if (expect.stdoutContains !== undefined && !result.stdout.includes(expect.stdoutContains)) {
+    failures.push(`Expected stdout to contain '${expect.stdoutContains}', got: ${JSON.stringify(result.stdout)}`);
+  }
+
+  if (expect.stdoutMatches !== undefined && !new RegExp(expect.stdoutMatches).test(result.stdout)) {
+    failures.push(`Expected stdout to match /${expect.stdoutMatches}/, got: ${JSON.stringify(result.stdout)}`);
+  }
+
+  return failures;
+};
+
+/**
+ * Run the `tests:` cases of every tool, one at a time, with the config's security policy.
+ * Confirmation is not asked for.
+ */
+export const runToolTests = async (config: MCPConfig, options: ToolTestOptions = {}): Promise<ToolTestResult[]> => {
+  const policyManager = SecurityPolicyManager.fromConfig(config.security);
+  const results: ToolTestResult[] = [];
+
+  for (const [toolName, tool] of Object.entries(config.tools)) {
+    if (options.tool !== undefined && options.tool !== toolName) continue;
+
+    const definition = {
+      ...tool,
+      env: { ...config.env, ...tool.env },
+      sandbox: resolveSandbox(config.sandbox, tool.sandbox)
+    };
+
+    for (const [index, testCase] of (tool.tests || []).entries()) {
+      const startTime = Date.now();
+      const outcome = await runCall(definition, testCase, policyManager, options.timeout);
+      const failures = checkExpectations(testCase.expect, outcome);
+
+      results.push({
+        tool: toolName,
+        name: testCase.name || `case ${index + 1}`,
+        passed: failures.length === 0,
+        failures,
+        durationMs: Date.now() - startTime
+      });
+    }
+  }
+
+  return results;
+};
@@ -1,18 +1,115 @@
 import { ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
 import { SecurityLevel } from '../security/policies.js';
+import { PathAccessMode } from '../security/paths.js';
+import { SecurityType } from '../security/sanitizer.js';
+import { OverflowMode } from '../mcp/output.js';
 
 export interface MCPConfig {
   tools: Record<string, ToolDefinition>;
+  // Static or command-backed content clients can read by URI
+  resources?: Record<string, ResourceDefinition>;
+  // Message templates clients can fill in
+  prompts?: Record<string, PromptDefinition>;
   security?: SecurityConfig;
+  server?: ServerConfig;
+  // Environment for every tool; values may reference ${VAR} secrets
+  env?: Record<string, string>;
+  // Dotenv file with secrets, relative to the config file
+  envFile?: string;
+  // Files or globs merged into this config, relative to the including file
+  include?: string | string[];
+  // Tool-level fields applied to every tool
+  defaults?: Partial<ToolDefinition>;
+  // Server-wide concurrency, rate and queue limits
+  limits?: LimitsConfig;
+  // Isolation for every tool and resource command; a tool's own `sandbox` fields take precedence
+  sandbox?: SandboxConfig;
+  // Named fragments that tools and properties can `extends:`
+  templates?: {
+    tools?: Record<string, Partial<ToolDefinition>>;
+    properties?: Record<string, Partial<ExtendedPropertySchema>>;
+  };
 }
 
+export interface ServerConfig {
+  auth?: {
+    // Required as `Authorization: Bearer <token>` on HTTP/SSE transports
+    bearerToken?: string;
+  };
+}
+
+export interface LimitsConfig {
+  // Calls running at the same time
+  maxConcurrent?: number;
+  // Calls started per window (seconds)
+  rateLimit?: {
+    calls: number;
+    window: number;
+  };
+  // Calls allowed to wait for a slot; 0 rejects them right away (default: unlimited)
+  maxQueue?: number;
+}
+
+export type SandboxType = 'none' | 'bubblewrap' | 'firejail' | 'prefix';
+
+export interface SandboxConfig {
+  type?: SandboxType;
+  // bubblewrap / firejail: allow network access (default: false)
+  network?: boolean;
+  // bubblewrap / firejail: empty tmpfs over the home directory (default: true)
+  tmpfsHome?: boolean;
+  // bubblewrap / firejail: paths mounted read-only in addition to allowedPaths and the working directory
+  readOnlyPaths?: string[];
+  // bubblewrap / firejail: paths mounted read-write
+  writablePaths?: string[];
+  // prefix: command the tool's command is appended to, e.g. a container runner
+  prefix?: string[];
+  // Applied with prlimit (Linux) or ulimit
+  resourceLimits?: ResourceLimits;
+}
+
+export interface ResourceLimits {
+  // Seconds of CPU time
+  cpuTime?: number;
+  // Bytes of address space
+  memory?: number;
+  // Processes of the user running the wrapper
+  maxProcesses?: number;
+  // Bytes per written file
+  fileSize?: number;
+}
+
+export type TransportType = 'stdio' | 'http' | 'sse';
+
 export interface SecurityConfig {
   level?: SecurityLevel;
+  // Directories or globs filepath inputs may point into (empty: anywhere not denied)
   allowedPaths?: string[];
+  // Directories or globs that are always refused, even inside allowedPaths
+  deniedPaths?: string[];
+  // Where `mode: write` filepath inputs may point (default: allowedPaths)
+  writablePaths?: string[];
+  // Security type of string properties without their own `security`
+  defaultSecurityType?: SecurityType;
   maxExecutionTimeout?: number;
   maxInputLength?: number;
+  maxOutputBytes?: number;
+  maxStderrBytes?: number;
   auditLogging?: boolean;
-  failOnWarnings?: boolean;
+  auditLog?: AuditLogConfig;
+  // Reject {{{var}}} / {{& var}} in shell commands of tools that are not marked unsafe
+  allowUnescapedTemplates?: boolean;
+  // Refuse to run commands without a sandbox (type other than none)
+  requireSandbox?: boolean;
+}
+
+export interface AuditLogConfig {
+  // JSON Lines file, relative to the config file
+  file?: string;
+  // Rotate when the file reaches this many bytes
+  maxSize?: number;
+  // Rotated files to keep
+  maxFiles?: number;
 }
 
 export interface ServerOptions {
@@ -20,14 +117,150 @@ export interface ServerOptions {
   version?: string;
   capabilities?: ServerCapabilities;
   configFile: string;
+  transport?: TransportType;
+  host?: string;
+  port?: number;
+  // Default tool timeout in seconds
+  timeout?: number;
 }
 
 export interface ToolDefinition {
+  extends?: string | string[];
   name?: string;
   description: string;
   input: ExtendedInputSchema;
-  cmd: string | PlatformCommands;
+  cmd?: string | PlatformCommands;
+  // Executable plus templated arguments, spawned without a shell
+  args?: string[] | PlatformArgs;
   escapeMode?: 'quote' | 'remove';
+  // Explicit opt-out of input escaping for deliberately raw tools
+  unsafe?: boolean;
+  output?: OutputOptions;
+  // Seconds; falls back to the CLI --timeout and is capped by maxExecutionTimeout
+  timeout?: number;
+  progress?: ProgressOptions;
+  // Templated values; may reference ${VAR} secrets
+  env?: Record<string, string>;
+  cwd?: string;
+  // false: only PATH (and required system variables); list: those variables as well
+  inheritEnv?: boolean | string[];
+  limits?: LimitsConfig;
+  // Reuse successful results for identical arguments
+  cache?: CacheOptions;
+  // Ask the user (MCP elicitation) before running; a string is the templated prompt
+  confirm?: boolean | string;
+  // Template written to the process's stdin, unescaped; without it stdin is /dev/null
+  stdin?: string;
+  // Cases run by `mcp-wrapper test`
+  tests?: ToolTestCase[];
+  sandbox?: SandboxConfig;
+}
+
+export interface ToolTestCase {
+  name?: string;
+  // Call arguments, validated like a client's
+  input?: Record<string, unknown>;
+  expect: ToolTestExpectations;
+}
+
+export interface ToolTestExpectations {
+  // Rendered command: a string for cmd tools, an argv list for args tools
+  command?: string | string[];
+  // Regex over the rendered command (argv joined with spaces)
+  commandMatches?: string;
+  // Substring of an input validation or rendering error; the case passes only if the call is rejected
+  error?: string;
+  // Setting any of these runs the command
+  exitCode?: number;
+  stdoutContains?: string;
+  stdoutMatches?: string;
+}
+
+export interface CacheOptions {
+  // Seconds a result stays valid
+  ttl: number;
+  // Results kept in memory; the least recently used are evicted (default: 100)
+  maxEntries?: number;
+  // JSON file the results are persisted to, relative to the config file
+  file?: string;
+}
+
+export interface ResourceDefinition {
+  // Fixed URI, or a URI template such as "repo://log/{branch}" whose variables become inputs
+  uri: string;
+  name?: string;
+  description?: string;
+  // Default: text/plain
+  mimeType?: string;
+  // Static content; otherwise cmd or args is run on every read
+  text?: string;
+  cmd?: string | PlatformCommands;
+  args?: string[] | PlatformArgs;
+  // Schema for the URI template variables (default: a required string per variable)
+  input?: ExtendedInputSchema;
+  escapeMode?: 'quote' | 'remove';
+  unsafe?: boolean;
+  timeout?: number;
+  env?: Record<string, string>;
+  cwd?: string;
+  inheritEnv?: boolean | string[];
+  sandbox?: SandboxConfig;
+}
+
+export interface PromptDefinition {
+  name?: string;
+  description?: string;
+  arguments?: PromptArgumentDefinition[];
+  // Mustache template over the arguments, sent as one user message
+  template: string;
+}
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface ProgressOptions {
+  // Seconds between heartbeat notifications
+  heartbeat?: number;
+  // Stderr lines matching this regex are sent as progress messages
+  pattern?: string;
+}
+
+export interface OutputOptions {
+  includeStderr?: boolean;
+  includeExitCode?: boolean;
+  // Exit codes treated as success (default [0]), e.g. [0, 1] for grep
+  successExitCodes?: number[];
+  format?: 'text' | 'json';
+  // Checked against the parsed JSON output and advertised to clients
+  outputSchema?: ExtendedInputSchema;
+  trim?: boolean;
+  // What to do when output exceeds maxOutputBytes / maxStderrBytes (default: truncate)
+  onOverflow?: OverflowMode;
+}
+
+export interface ExecutionOptions {
+  timeout?: number;
+  successExitCodes?: number[];
+  onOverflow?: OverflowMode;
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+  // Written to stdin, which is then closed
+  stdin?: string;
+  // Aborting kills the process tree
+  signal?: AbortSignal;
+  onStderrLine?: (line: string) => void;
+  // Isolation backend and resource limits the process is started with
+  sandbox?: SandboxConfig;
+  // Called with the rendered command before spawning; the command only runs when approved
+  confirm?: (renderedCommand: string | string[]) => Promise<ConfirmationResult>;
+}
+
+export interface ConfirmationResult {
+  approved: boolean;
+  reason?: string;
 }
 
 export interface ExtendedInputSchema {
@@ -48,8 +281,24 @@ export interface ExtendedPropertySchema {
   minLength?: number;
   maxLength?: number;
   pattern?: string;
-  // Security extension - only for filepath pre-sanitization
-  security?: 'filepath';
+  items?: ExtendedPropertySchema;
+  // Objects: nested properties
+  properties?: Record<string, ExtendedPropertySchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  extends?: string | string[];
+  // Booleans: emitted when true (e.g. "--verbose"), omitted when false
+  flag?: string;
+  // Arrays: placed before every item, as a separate word ("-e") or attached ("--exclude=")
+  prefix?: string;
+  // Kind of value the input must be; filepath values are resolved and checked against the path policy
+  security?: SecurityType;
+  // filepath: read (allowedPaths) or write (writablePaths) access (default: read)
+  mode?: PathAccessMode;
+  // filepath: reject paths that do not exist
+  mustExist?: boolean;
+  // url: accepted schemes (default: http, https)
+  schemes?: string[];
 }
 
 export interface PlatformCommands {
@@ -59,6 +308,13 @@ export interface PlatformCommands {
   default?: string;
 }
 
+export interface PlatformArgs {
+  win?: string[];
+  macos?: string[];
+  unix?: string[];
+  default?: string[];
+}
+
 export interface TemplateContext {
   [key: string]: any;
 }
@@ -68,9 +324,28 @@ export interface CommandResult {
   stderr: string;
   exitCode: number;
   success: boolean;
+  truncated?: boolean;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  // Not run because confirmation was refused
+  declined?: boolean;
+  durationMs?: number;
+  renderedCommand?: string | string[];
+  stdoutBytes?: number;
+  stderrBytes?: number;
 }
 
 export interface ConfigValidationError {
+  // File the field was defined in, when known
+  source?: string;
+  line?: number;
+  column?: number;
+  field: string;
+  message: string;
+  value?: any;
+}
+
+export interface InputValidationError {
   field: string;
   message: string;
   value?: any;
@@ -82,4 +357,8 @@ export interface LoadConfigOptions {
   defaults?: Partial<MCPConfig>;
 }
 
-export const DEFAULT_SERVER_OPTIONS: Partial<ServerOptions> = {};
\ No newline at end of file
+export const DEFAULT_SERVER_OPTIONS: Partial<ServerOptions> = {
+  transport: 'stdio',
+  host: '127.0.0.1',
+  port: 3000
+};
\ No newline at end of file
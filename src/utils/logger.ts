@@ -1,11 +1,12 @@
 import winston from 'winston';
 import chalk from 'chalk';
+import { redactSecrets } from '../security/secrets.js';
 
 const { combine, timestamp, printf, colorize } = winston.format;
 
 const customFormat = printf(({ level, message, timestamp }) => {
   const time = new Date(timestamp as string).toISOString().substring(11, 19);
-  return `${chalk.gray(time)} ${level}: ${message}`;
+  return `${chalk.gray(time)} ${level}: ${redactSecrets(String(message))}`;
 });
 
 export const logger = winston.createLogger({
@@ -23,7 +24,11 @@ export const logger = winston.createLogger({
 });
 
 export const setLogLevel = (level: string): void => {
-  logger.level = level;
+  // 'silent' turns logging off, for commands whose output is a report
+  logger.silent = level === 'silent';
+  if (!logger.silent) {
+    logger.level = level;
+  }
 };
 
 export const createContextLogger = (context: string) => {
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { formatInputValidationErrors, validateToolInput } from './input.js';
+import { ExtendedInputSchema } from '../types/config.js';
+
+const schema: ExtendedInputSchema = {
+  type: 'object',
+  properties: {
+    path: { type: 'string', minLength: 1, pattern: '^[a-z/]+$' },
+    lines: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+    mode: { type: 'string', enum: ['fast', 'full'] },
+    verbose: { type: 'boolean' },
+    tags: { type: 'array', items: { type: 'string', maxLength: 3 } },
+    options: {
+      type: 'object',
+      properties: { depth: { type: 'integer', default: 1 }, name: { type: 'string' } },
+      required: ['name'],
+      additionalProperties: false
+    }
+  },
+  required: ['path']
+};
+
+describe('validateToolInput', () => {
+  it('applies defaults and coerces loosely typed values', () => {
+    const { value, errors } = validateToolInput({ path: '/tmp', verbose: 'true', tags: ['a'] }, schema);
+
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ path: '/tmp', lines: 10, verbose: true, tags: ['a'] });
+  });
+
+  it('does not share default objects between calls', () => {
+    const withList: ExtendedInputSchema = { type: 'object', properties: { list: { type: 'array', default: ['a'] } } };
+    const first = validateToolInput({}, withList).value;
+    first.list.push('b');
+
+    expect(validateToolInput({}, withList).value.list).toEqual(['a']);
+  });
+
+  it('reports every violation at once', () => {
+    const { errors } = validateToolInput({ lines: '500', mode: 'slow', tags: ['abcd'] }, schema);
+
+    expect(errors).toEqual([
+      { field: 'lines', message: 'Must be <= 100', value: 500 },
+      { field: 'mode', message: 'Must be one of: fast, full', value: 'slow' },
+      { field: 'tags[0]', message: 'Must be at most 3 characters', value: 'abcd' },
+      { field: 'path', message: 'Required property is missing' }
+    ]);
+  });
+
+  it('rejects values that cannot be coerced', () => {
+    const { errors } = validateToolInput({ path: '/tmp', lines: '12abc', verbose: 'yes' }, schema);
+
+    expect(errors.map(error => error.message)).toEqual(['Expected integer, got string', 'Expected boolean, got string']);
+  });
+
+  it('validates the properties of objects', () => {
+    const { value, errors } = validateToolInput({ path: '/tmp', options: { depth: '2', extra: true } }, schema);
+
+    expect(value.options).toEqual({ depth: 2, extra: true });
+    expect(errors).toEqual([
+      { field: 'options.name', message: 'Required property is missing' },
+      { field: 'options.extra', message: 'Unknown property', value: true }
+    ]);
+  });
+
+  it('rejects unknown properties when additionalProperties is false', () => {
+    const strict: ExtendedInputSchema = { type: 'object', properties: {}, additionalProperties: false };
+
+    expect(validateToolInput({ other: 1 }, strict).errors).toEqual([{ field: 'other', message: 'Unknown property', value: 1 }]);
+  });
+});
+
+describe('formatInputValidationErrors', () => {
+  it('prints one error per line with the rejected value', () => {
+    expect(formatInputValidationErrors([
+      { field: 'lines', message: 'Must be <= 100', value: 500 },
+      { field: 'path', message: 'Required property is missing' }
+    ])).toBe('lines: Must be <= 100 (got 500)\npath: Required property is missing');
+  });
+});
@@ -0,0 +1,178 @@
+import { ExtendedInputSchema, ExtendedPropertySchema, InputValidationError, TemplateContext } from '../types/config.js';
+
+export interface InputValidationResult {
+  value: TemplateContext;
+  errors: InputValidationError[];
+}
+
+const describeType = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Coerce loosely typed values (e.g. "42", "true") to the declared type.
+ * Values that cannot be coerced are returned unchanged and rejected by the type check.
+ */
+const coerceValue = (value: any, type: ExtendedPropertySchema['type']): any => {
+  switch (type) {
+    case 'number':
+    case 'integer':
+      if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+        return Number(value);
+      }
+      return value;
+    case 'boolean':
+      if (value === 'true') return true;
+      if (value === 'false') return false;
+      return value;
+    case 'string':
+      if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+      }
+      return value;
+    default:
+      return value;
+  }
+};
+
+const checkType = (value: any, type: ExtendedPropertySchema['type']): boolean => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return true;
+  }
+};
+
+type ObjectSchema = Pick<ExtendedPropertySchema, 'properties' | 'required'> & { additionalProperties?: unknown };
+
+const joinField = (field: string, key: string): string => field ? `${field}.${key}` : key;
+
+/**
+ * Validate the properties of an object: applies defaults, checks each declared property,
+ * then `required` and `additionalProperties`. Returns a copy with the coerced values.
+ */
+const validateObject = (
+  input: Record<string, any>,
+  schema: ObjectSchema,
+  field: string,
+  errors: InputValidationError[]
+): Record<string, any> => {
+  const value: Record<string, any> = { ...input };
+  const properties = schema.properties || {};
+
+  for (const [key, propertySchema] of Object.entries(properties)) {
+    if ((value[key] === undefined || value[key] === null) && propertySchema.default !== undefined) {
+      value[key] = structuredClone(propertySchema.default);
+    }
+
+    if (value[key] === undefined || value[key] === null) continue;
+
+    value[key] = validateProperty(value[key], propertySchema, joinField(field, key), errors);
+  }
+
+  (schema.required || []).forEach(key => {
+    if (value[key] === undefined || value[key] === null) {
+      errors.push({ field: joinField(field, key), message: 'Required property is missing' });
+    }
+  });
+
+  if (schema.additionalProperties === false) {
+    Object.keys(value)
+      .filter(key => !(key in properties))
+      .forEach(key => errors.push({ field: joinField(field, key), message: 'Unknown property', value: value[key] }));
+  }
+
+  return value;
+};
+
+const validateProperty = (
+  input: any,
+  schema: ExtendedPropertySchema,
+  field: string,
+  errors: InputValidationError[]
+): any => {
+  const value = coerceValue(input, schema.type);
+
+  if (!checkType(value, schema.type)) {
+    errors.push({
+      field,
+      message: `Expected ${schema.type}, got ${describeType(input)}`,
+      value: input
+    });
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      field,
+      message: `Must be one of: ${schema.enum.join(', ')}`,
+      value
+    });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ field, message: `Must be >= ${schema.minimum}`, value });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ field, message: `Must be <= ${schema.maximum}`, value });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ field, message: `Must be at least ${schema.minLength} characters`, value });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ field, message: `Must be at most ${schema.maxLength} characters`, value });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ field, message: `Must match pattern: ${schema.pattern}`, value });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.map((item, index) => validateProperty(item, schema.items, `${field}[${index}]`, errors));
+  }
+
+  if (schema.type === 'object') {
+    return validateObject(value, schema, field, errors);
+  }
+
+  return value;
+};
+
+/**
+ * Validate tool call arguments against the tool's input schema.
+ * Applies defaults, coerces types and collects every violation instead of stopping at the first.
+ */
+export const validateToolInput = (
+  args: Record<string, unknown> | undefined,
+  schema: ExtendedInputSchema
+): InputValidationResult => {
+  const errors: InputValidationError[] = [];
+  const value: TemplateContext = validateObject(args || {}, schema || {}, '', errors);
+
+  return { value, errors };
+};
+
+export const formatInputValidationErrors = (errors: InputValidationError[]): string => {
+  return errors
+    .map(err => err.value !== undefined
+      ? `${err.field}: ${err.message} (got ${JSON.stringify(err.value)})`
+      : `${err.field}: ${err.message}`)
+    .join('\n');
+};